@@ -1,29 +1,57 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { AppTab } from './types';
 import DrawTab from './components/DrawTab';
+import PhotoTab from './components/PhotoTab';
 import ChatTab from './components/ChatTab';
 import StoryTab from './components/StoryTab';
-import { Palette, MessageCircle, BookOpen, Mic, Volume2, Loader2, Sparkles } from 'lucide-react';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import VolumeControl from './components/VolumeControl';
+import SleepScreen from './components/SleepScreen';
+import { audioPlayback } from './services/audioPlayback';
+import { trackTabTime } from './services/usage';
+import { useProfiles } from './services/ProfileContext';
+import { useScreenTimeLock } from './services/ParentalControlsContext';
+import { Palette, MessageCircle, BookOpen, Camera, Mic, MicOff, Volume2, Loader2, Sparkles, WifiOff } from 'lucide-react';
 
-export type VoiceState = 'connecting' | 'listening' | 'speaking' | 'error';
+export type VoiceState = 'connecting' | 'listening' | 'speaking' | 'reconnecting' | 'error' | 'micOff';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<AppTab>(AppTab.DRAW);
   // State to track the voice status specifically for the Draw Tab animation
   const [drawVoiceState, setDrawVoiceState] = useState<VoiceState>('connecting');
+  const { activeProfile } = useProfiles();
+  const lock = useScreenTimeLock();
+  // Nothing runs (or listens) until we know the child may play
+  const canPlay = lock === null;
+
+  // Sounds from the previous tab shouldn't follow the child to the next one
+  useEffect(() => {
+    audioPlayback.stopAll();
+  }, [activeTab]);
+
+  // Screen time per tab, for the parent dashboard
+  useEffect(() => (canPlay ? trackTabTime(activeProfile.id, activeTab) : undefined), [activeProfile.id, activeTab, canPlay]);
 
   return (
     <div className="h-screen w-full bg-yellow-50 flex flex-col overflow-hidden relative">
       
+      <ProfileSwitcher />
+      <VolumeControl />
+
       {/* Main Content Area */}
       <main className="flex-1 w-full overflow-hidden relative">
-        {activeTab === AppTab.STORY && <StoryTab />}
-        {activeTab === AppTab.DRAW && (
-          <DrawTab onStateChange={setDrawVoiceState} />
+        {canPlay && activeTab === AppTab.STORY && <StoryTab />}
+        {canPlay && activeTab === AppTab.PHOTO && <PhotoTab />}
+        {canPlay && activeTab === AppTab.DRAW && (
+          // A fresh canvas per child, so one child's picture never lands in another's gallery
+          <DrawTab key={activeProfile.id} onStateChange={setDrawVoiceState} />
         )}
-        {activeTab === AppTab.CHAT && <ChatTab />}
+        {canPlay && activeTab === AppTab.CHAT && <ChatTab />}
       </main>
 
+      {/* Screen-time limits and quiet hours */}
+      {lock !== null && lock !== 'checking' && <SleepScreen reason={lock} />}
+
       {/* Persistent Navigation Bar */}
       <nav className="fixed bottom-0 left-0 right-0 bg-white border-t-2 border-yellow-100 pb-6 pt-2 px-4 rounded-t-3xl shadow-[0_-5px_20px_rgba(0,0,0,0.05)] z-50">
         <div className="flex justify-around items-center max-w-md mx-auto">
@@ -41,7 +69,20 @@ const App: React.FC = () => {
             </span>
           </button>
 
-          {/* 2. Draw Tab (魔法画板) */}
+          {/* 2. Photo Tab (拍照学) */}
+          <button 
+            onClick={() => setActiveTab(AppTab.PHOTO)}
+            className={`flex flex-col items-center gap-1 transition-all duration-300 ${activeTab === AppTab.PHOTO ? '-translate-y-4 scale-110' : 'opacity-60'}`}
+          >
+             <div className={`p-3 rounded-full shadow-lg ${activeTab === AppTab.PHOTO ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-500'}`}>
+              <Camera size={24} strokeWidth={2.5} />
+            </div>
+            <span className={`text-[10px] font-bold ${activeTab === AppTab.PHOTO ? 'text-blue-500' : 'text-gray-400'}`}>
+              拍照学
+            </span>
+          </button>
+
+          {/* 3. Draw Tab (魔法画板) */}
           <button 
             onClick={() => setActiveTab(AppTab.DRAW)}
             className={`flex flex-col items-center gap-1 transition-all duration-300 relative ${activeTab === AppTab.DRAW ? '-translate-y-4 scale-125' : 'opacity-60'}`}
@@ -62,7 +103,7 @@ const App: React.FC = () => {
              
              <div className={`p-3 rounded-full shadow-lg relative z-10 transition-colors duration-300 
                 ${activeTab === AppTab.DRAW 
-                    ? (drawVoiceState === 'speaking' ? 'bg-pink-500' : 'bg-purple-600') 
+                    ? (drawVoiceState === 'speaking' ? 'bg-pink-500' : drawVoiceState === 'reconnecting' ? 'bg-amber-500' : 'bg-purple-600') 
                     : 'bg-gray-100 text-gray-500'
                 } text-white`}>
                
@@ -76,8 +117,12 @@ const App: React.FC = () => {
                         return <Volume2 size={24} className="animate-bounce" />;
                       case 'listening':
                         return <Mic size={24} />; // Stable mic implies listening
+                      case 'reconnecting':
+                        return <WifiOff size={24} className="animate-pulse" />;
                       case 'error':
                         return <Sparkles size={24} />;
+                      case 'micOff':
+                        return <MicOff size={24} />;
                       default:
                         return <Palette size={24} />;
                     }
@@ -91,7 +136,7 @@ const App: React.FC = () => {
             </span>
           </button>
 
-          {/* 3. Chat Tab (旁听) */}
+          {/* 4. Chat Tab (旁听) */}
           <button 
             onClick={() => setActiveTab(AppTab.CHAT)}
             className={`flex flex-col items-center gap-1 transition-all duration-300 ${activeTab === AppTab.CHAT ? '-translate-y-4 scale-110' : 'opacity-60'}`}
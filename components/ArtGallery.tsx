@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { Artwork } from '../types';
+import { useProfiles } from '../services/ProfileContext';
+import { deleteArtwork, listArtworks } from '../services/gallery';
+import { downloadArtworkPng, exportPictureBookPdf } from '../services/artworkExport';
+import { LANGUAGES } from '../languages';
+import { ArrowLeft, Images, Download, FileDown, Trash2, RefreshCw } from 'lucide-react';
+
+interface ArtGalleryProps {
+  onClose: () => void;
+}
+
+const ArtGallery: React.FC<ArtGalleryProps> = ({ onClose }) => {
+  const { activeProfile } = useProfiles();
+  const [artworks, setArtworks] = useState<Artwork[]>([]);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    listArtworks(activeProfile.id).then(setArtworks).catch(err => console.error("Loading artworks failed", err));
+  }, [activeProfile.id]);
+
+  const removeArtwork = async (artwork: Artwork) => {
+    if (!confirm('要删除这幅画吗？')) return;
+    await deleteArtwork(artwork.id);
+    setArtworks(prev => prev.filter(a => a.id !== artwork.id));
+  };
+
+  const downloadPng = async (artwork: Artwork) => {
+    try {
+      await downloadArtworkPng(artwork);
+    } catch (err) {
+      console.error("PNG download failed", err);
+      alert("Oops! Couldn't save the picture.");
+    }
+  };
+
+  const exportPdf = async () => {
+    // Named after the language when every picture shares one
+    const languages = new Set(artworks.map(a => a.targetLanguage));
+    const title = languages.size === 1
+      ? `我的${LANGUAGES[artworks[0].targetLanguage].label}绘本`
+      : '我的魔法画册';
+    setExporting(true);
+    try {
+      await exportPictureBookPdf(artworks, title, `${activeProfile.avatar} ${activeProfile.name}`);
+    } catch (err) {
+      console.error("PDF export failed", err);
+      alert("Oops! Couldn't make the picture book.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col w-full max-w-md mx-auto h-full overflow-y-auto p-4 pb-24">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onClose} className="p-2 rounded-full bg-white shadow text-purple-500">
+          <ArrowLeft size={24} />
+        </button>
+        <h1 className="text-2xl font-black text-purple-500 flex items-center gap-2">
+          <Images className="text-purple-400" /> 我的画廊
+        </h1>
+        <span className="ml-auto text-sm font-bold text-gray-400">{artworks.length} 幅</span>
+      </div>
+
+      {artworks.length > 0 && (
+        <button
+          onClick={exportPdf}
+          disabled={exporting}
+          className="mb-4 w-full bg-purple-500 text-white py-3 rounded-2xl font-bold shadow-md flex items-center justify-center gap-2 active:scale-95 transition-transform disabled:opacity-60"
+        >
+          {exporting ? <RefreshCw size={20} className="animate-spin" /> : <FileDown size={20} />}
+          {exporting ? '正在制作绘本...' : '导出 PDF 绘本'}
+        </button>
+      )}
+
+      {artworks.length === 0 ? (
+        <div className="text-center text-gray-400 font-bold mt-16">
+          <p className="text-5xl mb-4">🖼️</p>
+          还没有画好的画哦！
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {artworks.map(artwork => (
+            <div key={artwork.id} className="bg-white rounded-3xl shadow overflow-hidden border-2 border-purple-100">
+              <div className="relative">
+                <img src={artwork.image} alt={artwork.prompt} className="w-full aspect-square object-cover" />
+                <div className="absolute top-2 right-2 flex gap-2">
+                  <button
+                    onClick={() => downloadPng(artwork)}
+                    className="bg-white/90 text-purple-500 p-2 rounded-full shadow"
+                  >
+                    <Download size={18} />
+                  </button>
+                  <button
+                    onClick={() => removeArtwork(artwork)}
+                    className="bg-white/90 text-red-500 p-2 rounded-full shadow"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+              <div className="p-3">
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {artwork.words.map((word, i) => (
+                    <span key={i} className="px-3 py-1 rounded-full bg-purple-50 text-purple-600 font-bold text-sm">
+                      {word.emoji} {word.targetWord}
+                      {word.nativeWord && <span className="text-gray-400 font-medium"> {word.nativeWord}</span>}
+                    </span>
+                  ))}
+                </div>
+                <p className="text-xs font-bold text-gray-400">{new Date(artwork.createdAt).toLocaleDateString()}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArtGallery;
@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { StoryBook } from '../types';
+import { useProfiles } from '../services/ProfileContext';
+import { deleteBook, listBooks } from '../services/storyBooks';
+import { ArrowLeft, Library, Trash2 } from 'lucide-react';
+
+interface BookShelfProps {
+  onClose: () => void;
+  onOpen: (book: StoryBook) => void;
+}
+
+const BookShelf: React.FC<BookShelfProps> = ({ onClose, onOpen }) => {
+  const { activeProfile } = useProfiles();
+  const [books, setBooks] = useState<StoryBook[]>([]);
+
+  useEffect(() => {
+    listBooks(activeProfile.id).then(setBooks).catch(err => console.error("Loading books failed", err));
+  }, [activeProfile.id]);
+
+  const removeBook = async (book: StoryBook) => {
+    if (!confirm(`要删除《${book.title}》吗？`)) return;
+    await deleteBook(book.id);
+    setBooks(prev => prev.filter(b => b.id !== book.id));
+  };
+
+  return (
+    <div className="flex flex-col w-full max-w-md mx-auto h-full overflow-y-auto p-4 pb-24">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onClose} className="p-2 rounded-full bg-white shadow text-rose-500">
+          <ArrowLeft size={24} />
+        </button>
+        <h1 className="text-2xl font-black text-rose-500 flex items-center gap-2">
+          <Library className="text-rose-400" /> 我的书架
+        </h1>
+        <span className="ml-auto text-sm font-bold text-gray-400">{books.length} 本</span>
+      </div>
+
+      {books.length === 0 ? (
+        <div className="text-center text-gray-400 font-bold mt-16">
+          <p className="text-5xl mb-4">📚</p>
+          还没有保存的绘本哦！
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          {books.map(book => (
+            <div key={book.id} className="bg-white rounded-2xl shadow overflow-hidden border-2 border-rose-200 relative">
+              <button onClick={() => onOpen(book)} className="w-full text-left active:scale-95 transition-transform">
+                {book.pages[0]?.image ? (
+                  <img src={book.pages[0].image} alt={book.title} className="w-full aspect-[3/4] object-cover" />
+                ) : (
+                  <div className="w-full aspect-[3/4] bg-rose-50 flex items-center justify-center text-6xl">📖</div>
+                )}
+                <div className="p-2">
+                  <p className="font-black text-rose-600 truncate">{book.title}</p>
+                  <p className="text-xs font-bold text-gray-400">
+                    {book.pages.length} 页 · {new Date(book.updatedAt).toLocaleDateString()}
+                  </p>
+                </div>
+              </button>
+              <button
+                onClick={() => removeBook(book)}
+                className="absolute top-2 right-2 bg-white/90 text-red-500 p-2 rounded-full shadow"
+              >
+                <Trash2 size={18} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookShelf;
@@ -1,43 +1,82 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { LiveVoiceSession } from '../services/geminiService';
-import { Mic, MicOff, Volume2, Loader2, Ear } from 'lucide-react';
+import { useAiProvider } from '../services/AiProviderContext';
+import { LiveSession } from '../services/aiProvider';
+import { useLanguages, useProfiles } from '../services/ProfileContext';
+import { LANGUAGES } from '../languages';
+import { getDifficulty } from '../difficulty';
+import { AppTab, TranscriptSession } from '../types';
+import { TranscriptRecorder } from '../services/transcripts';
+import { sensitivityForAge } from '../services/voiceActivity';
+import { getPrivacySettings, onPrivacyChange } from '../services/privacy';
+import { Mic, MicOff, Volume2, Loader2, Ear, WifiOff, ScrollText } from 'lucide-react';
+import SessionLog from './SessionLog';
+import ParentGate from './ParentGate';
+import MicNotice from './MicNotice';
 
 const ChatTab: React.FC = () => {
   const [isAiSpeaking, setIsAiSpeaking] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSessionActive, setIsSessionActive] = useState(false);
   const [isReady, setIsReady] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+  const [currentSession, setCurrentSession] = useState<TranscriptSession | null>(null);
+  // The log is for parents, so it opens behind the grown-up question
+  const [logView, setLogView] = useState<'gate' | 'log' | null>(null);
+  const [micAllowed, setMicAllowed] = useState(getPrivacySettings().allowMic);
   
-  const sessionRef = useRef<LiveVoiceSession | null>(null);
+  const ai = useAiProvider();
+  const { languages } = useLanguages();
+  const { activeProfile } = useProfiles();
+  const sessionRef = useRef<LiveSession | null>(null);
+
+  useEffect(() => onPrivacyChange(settings => setMicAllowed(settings.allowMic)), []);
 
   useEffect(() => {
-    const session = new LiveVoiceSession(
+    // Nothing connects, or asks for the mic, until a parent allows voice chat
+    if (!micAllowed) return;
+    const recorder = new TranscriptRecorder(activeProfile.id, AppTab.CHAT, languages.target, setCurrentSession);
+    setCurrentSession(recorder.session);
+
+    const session = ai.createLiveSession(
         (speaking) => setIsAiSpeaking(speaking),
-        (err) => setError(err)
+        (err) => setError(err),
+        recorder.handleTranscription
     );
     sessionRef.current = session;
 
+    const target = LANGUAGES[languages.target].englishName;
+    const native = LANGUAGES[languages.native].englishName;
+    const age = activeProfile.age;
+
     // Companion Mode System Instruction
     const companionPrompt = `
-      You are "Gemi", a friendly, invisible English tutor.
+      You are "Gemi", a friendly, invisible ${target} tutor.
       
       Context:
-      You are listening to a parent (speaking mostly Chinese) and a 3-4 year old child (learning English).
+      You are listening to a parent (speaking mostly ${native}) and a ${age} year old child named ${activeProfile.name} (learning ${target}).
+      Vocabulary level: ${getDifficulty(age).vocabulary}
       
       Your Rule:
       - Do NOT respond to everything. Be a "sidekick".
       - LISTEN patiently.
       - INTERJECT ONLY IF:
-        1. The parent asks "How do you say... in English?" or "What is this?".
+        1. The parent asks "How do you say... in ${target}?" or "What is this?".
         2. The parent is teaching a word and you can provide a fun sound effect or the correct pronunciation.
-        3. There is a long pause and you want to offer a quick, 1-sentence fun fact in English about the topic they were discussing.
+        3. There is a long pause and you want to offer a quick, 1-sentence fun fact in ${target} about the topic they were discussing.
       
       Style:
       - Friendly, warm, slightly high-pitched (like a cartoon character).
       - Keep responses SHORT (under 5 seconds mostly).
     `;
 
-    session.connect({ systemInstruction: companionPrompt }).then(() => {
+    session.connect({
+        systemInstruction: companionPrompt,
+        vadSensitivity: sensitivityForAge(age),
+        onConnectionStateChange: (state) => setIsReconnecting(state === 'reconnecting'),
+        onUserSpeechStart: () => setIsUserSpeaking(true),
+        onUserSpeechEnd: () => setIsUserSpeaking(false)
+    }).then(() => {
         setIsReady(true);
         // Start muted by default
         session.setListening(false); 
@@ -45,8 +84,11 @@ const ChatTab: React.FC = () => {
 
     return () => {
         session.disconnect();
+        // The next session starts over, muted
+        setIsReady(false);
+        setIsSessionActive(false);
     };
-  }, []);
+  }, [ai, languages.target, languages.native, activeProfile.id, activeProfile.age, activeProfile.name, micAllowed]);
 
   const toggleSession = () => {
     if (!isReady) return;
@@ -57,6 +99,15 @@ const ChatTab: React.FC = () => {
 
   return (
     <div className="flex flex-col h-full pb-24 bg-amber-50 relative overflow-hidden">
+      {logView === 'gate' && (
+        <ParentGate onPass={() => setLogView('log')} onClose={() => setLogView(null)} />
+      )}
+      {logView === 'log' && (
+        <div className="absolute inset-0 z-30 bg-amber-50">
+            <SessionLog current={currentSession} onClose={() => setLogView(null)} />
+        </div>
+      )}
+
       <div className="p-4 bg-white/50 backdrop-blur-sm shadow-sm z-10 text-center border-b border-amber-100">
         <h1 className="text-2xl font-black text-orange-500 flex items-center justify-center gap-2">
           <Volume2 className="text-orange-400" /> 伴读小助手
@@ -70,14 +121,22 @@ const ChatTab: React.FC = () => {
             </div>
         )}
 
-        {!isReady && !error && (
+        {isReconnecting && !error && (
+            <div className="absolute top-4 bg-amber-100 text-amber-700 px-4 py-2 rounded-full font-bold text-sm flex items-center gap-2">
+                <WifiOff size={16} className="animate-pulse" /> 网络不稳定，正在重新连接...
+            </div>
+        )}
+
+        {!micAllowed && <MicNotice />}
+
+        {micAllowed && !isReady && !error && (
              <div className="flex flex-col items-center text-gray-400">
                 <Loader2 size={48} className="animate-spin mb-2 text-amber-400" />
                 <p className="font-bold">正在呼叫 Gemi...</p>
              </div>
         )}
 
-        {isReady && (
+        {micAllowed && isReady && (
             <div className="relative flex flex-col items-center">
                 <div className={`relative transition-all duration-500 ${isSessionActive ? 'scale-100' : 'opacity-50 grayscale'}`}>
                     {isAiSpeaking && (
@@ -95,7 +154,7 @@ const ChatTab: React.FC = () => {
                         ${isAiSpeaking ? 'border-orange-400' : isSessionActive ? 'border-green-400' : 'border-gray-200'}
                     `}>
                         <span className="text-8xl filter drop-shadow-sm" role="img" aria-label="bot">
-                            {isAiSpeaking ? '🦁' : isSessionActive ? '👂' : '💤'}
+                            {isAiSpeaking ? '🦁' : isSessionActive ? (isUserSpeaking ? '👀' : '👂') : '💤'}
                         </span>
                     </div>
                 </div>
@@ -106,7 +165,7 @@ const ChatTab: React.FC = () => {
                             <p className="text-2xl font-black text-orange-600 animate-bounce">Gemi 正在说话...</p>
                          ) : (
                             <>
-                                <p className="text-xl font-bold text-green-600 mb-2">我正在听哦...</p>
+                                <p className="text-xl font-bold text-green-600 mb-2">{isUserSpeaking ? '我听到啦...' : '我正在听哦...'}</p>
                                 <p className="text-gray-500 text-sm bg-white/50 p-2 rounded-lg">妈妈继续讲绘本吧，需要我的时候直接问我！</p>
                             </>
                          )
@@ -121,10 +180,10 @@ const ChatTab: React.FC = () => {
         )}
       </div>
 
-      <div className="p-8 flex justify-center items-center pb-12">
+      <div className="p-8 flex flex-col justify-center items-center gap-4 pb-12">
         <button
             onClick={toggleSession}
-            disabled={!isReady}
+            disabled={!micAllowed || !isReady}
             className={`
                 flex items-center gap-3 px-8 py-4 rounded-full shadow-xl transition-all duration-200 font-black text-xl min-w-[200px] justify-center
                 ${!isReady ? 'bg-gray-200 text-gray-400 cursor-not-allowed' : 
@@ -143,6 +202,13 @@ const ChatTab: React.FC = () => {
                 </>
             )}
         </button>
+        <button
+            onClick={() => setLogView('gate')}
+            className="flex items-center gap-2 text-orange-500 font-bold bg-white/70 px-4 py-2 rounded-full shadow-sm"
+        >
+            <ScrollText size={18} /> 对话记录
+        </button>
+        {micAllowed && <MicNotice />}
       </div>
     </div>
   );
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useAiProvider } from '../services/AiProviderContext';
+import { useLanguages, useProfiles } from '../services/ProfileContext';
+import { AppTab } from '../types';
+import { COLOR_NAMES, ColorName, LANGUAGES } from '../languages';
+import { floodFill, hexToRgb } from '../services/floodFill';
+import { getSpeech, prewarmSpeech } from '../services/speechCache';
+import { audioPlayback } from '../services/audioPlayback';
+import { ContentBlockedError, logSafetyEvent } from '../services/safety';
+import { ArrowLeft, Paintbrush, RotateCcw, RefreshCw, Sparkles } from 'lucide-react';
+
+interface ColoringPageProps {
+  // English scene prompt to draw as line art
+  prompt: string;
+  onClose: () => void;
+}
+
+const CRAYONS: Record<ColorName, string> = {
+  red: '#EF4444',
+  orange: '#F97316',
+  yellow: '#FACC15',
+  green: '#22C55E',
+  blue: '#3B82F6',
+  purple: '#A855F7',
+  pink: '#F472B6',
+  brown: '#B45309',
+};
+
+// Line art is drawn at its own resolution; SVG placeholders have none
+const FALLBACK_SIZE_PX = 1024;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Image failed to load"));
+    img.src = src;
+  });
+
+const ColoringPage: React.FC<ColoringPageProps> = ({ prompt, onClose }) => {
+  const ai = useAiProvider();
+  const { languages } = useLanguages();
+  const { activeProfile } = useProfiles();
+  const [lineArt, setLineArt] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [crayon, setCrayon] = useState<ColorName>('red');
+  const [attempt, setAttempt] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The uncolored page, for starting over
+  const blankRef = useRef<ImageData | null>(null);
+
+  const colorWords = LANGUAGES[languages.target].colorWords;
+  const spokenColor = (name: ColorName) => `${colorWords[name]}!`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLineArt(null);
+    setFailed(false);
+    ai.generateKidImage(prompt, 'coloringPage')
+      .then(url => { if (!cancelled) setLineArt(url); })
+      .catch(err => {
+        console.error("Coloring page failed", err);
+        if (err instanceof ContentBlockedError) {
+          logSafetyEvent(activeProfile.id, AppTab.DRAW, 'blocked', [], prompt)
+            .catch(e => console.error("Logging safety event failed", e));
+        }
+        if (!cancelled) setFailed(true);
+      });
+    // Crayon words are spoken on every tap, so have them ready
+    prewarmSpeech(ai, COLOR_NAMES.map(spokenColor), languages.target)
+      .catch(err => console.error("Prewarming speech failed", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [ai, prompt, languages.target, activeProfile.id, attempt]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!lineArt || !canvas) return;
+    loadImage(lineArt).then(img => {
+      canvas.width = img.naturalWidth || FALLBACK_SIZE_PX;
+      canvas.height = img.naturalHeight || FALLBACK_SIZE_PX;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      blankRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    }).catch(err => {
+      console.error("Coloring page failed", err);
+      setFailed(true);
+    });
+  }, [lineArt]);
+
+  const speakColor = async (name: ColorName) => {
+    try {
+      const buffer = await getSpeech(ai, spokenColor(name), languages.target);
+      if (buffer) audioPlayback.play(buffer, { priority: 'effect' });
+    } catch (e) {
+      console.error("Color speech failed", e);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !blankRef.current) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = (e.clientX - rect.left) * canvas.width / rect.width;
+    const y = (e.clientY - rect.top) * canvas.height / rect.height;
+
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    if (!floodFill(image, x, y, hexToRgb(CRAYONS[crayon]))) return;
+    ctx.putImageData(image, 0, 0);
+    speakColor(crayon);
+  };
+
+  const startOver = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !blankRef.current) return;
+    canvas.getContext('2d', { willReadFrequently: true })!.putImageData(blankRef.current, 0, 0);
+  };
+
+  return (
+    <div className="flex flex-col w-full max-w-md mx-auto h-full overflow-y-auto p-4 pb-24">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onClose} className="p-2 rounded-full bg-white shadow text-purple-500">
+          <ArrowLeft size={24} />
+        </button>
+        <h1 className="text-2xl font-black text-purple-500 flex items-center gap-2">
+          <Paintbrush className="text-purple-400" /> 涂色
+        </h1>
+        <button
+          onClick={startOver}
+          disabled={!lineArt}
+          className="ml-auto p-2 rounded-full bg-white shadow text-purple-500 disabled:opacity-50"
+        >
+          <RotateCcw size={22} />
+        </button>
+      </div>
+
+      <div className="w-full aspect-square bg-white rounded-3xl shadow-inner border-4 border-purple-100 overflow-hidden flex items-center justify-center">
+        {failed ? (
+          <div className="text-center text-purple-400 font-bold">
+            <p className="mb-4">魔法打了个喷嚏...</p>
+            <button
+              onClick={() => setAttempt(n => n + 1)}
+              className="px-5 py-2 rounded-full bg-purple-500 text-white shadow"
+            >
+              再试一次
+            </button>
+          </div>
+        ) : lineArt ? (
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            className="w-full h-full touch-none"
+          />
+        ) : (
+          <div className="flex flex-col items-center justify-center text-purple-400">
+            <div className="relative">
+              <RefreshCw size={56} className="animate-spin mb-4 text-purple-500" />
+              <Sparkles size={28} className="absolute -top-2 -right-2 text-yellow-400 animate-bounce" />
+            </div>
+            <p className="font-bold text-xl animate-pulse text-purple-500">正在画线稿...</p>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-3 mt-4">
+        {COLOR_NAMES.map(name => (
+          <button
+            key={name}
+            onClick={() => {
+              setCrayon(name);
+              speakColor(name);
+            }}
+            className="flex flex-col items-center gap-1 active:scale-95 transition-transform"
+          >
+            <span
+              className={`w-12 h-12 rounded-full shadow-md border-4 ${crayon === name ? 'border-purple-500 scale-110' : 'border-white'} transition-transform`}
+              style={{ backgroundColor: CRAYONS[name] }}
+            />
+            <span className="text-sm font-bold text-gray-600">{colorWords[name]}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ColoringPage;
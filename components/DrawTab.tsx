@@ -1,8 +1,27 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { generateKidImage, LiveVoiceSession, generateSpeech } from '../services/geminiService';
-import { Palette, Sparkles, RefreshCw } from 'lucide-react';
+import { useAiProvider } from '../services/AiProviderContext';
+import { LiveSession } from '../services/aiProvider';
+import { Palette, Sparkles, RefreshCw, Undo2, Images, Paintbrush } from 'lucide-react';
 import { Type, FunctionDeclaration } from "@google/genai";
 import { VoiceState } from '../App';
+import { useLanguages, useProfiles } from '../services/ProfileContext';
+import { LANGUAGES, LanguageInfo } from '../languages';
+import { getDifficulty } from '../difficulty';
+import { trackWord, vocabularyToCard } from '../services/spacedRepetition';
+import { recordAttempt, scorePronunciation } from '../services/pronunciation';
+import { AppTab, FlashCardData } from '../types';
+import { getSpeech, prewarmSpeech } from '../services/speechCache';
+import { audioPlayback, Playback } from '../services/audioPlayback';
+import { Scene, EMPTY_SCENE, addObject, removeObject, changeColor, setBackground, findObject, toObjectSize, describeObject, composeImagePrompt, composeEditInstruction, describeScene, sceneWords } from '../services/scene';
+import { saveArtwork } from '../services/gallery';
+import { TranscriptRecorder } from '../services/transcripts';
+import { sensitivityForAge } from '../services/voiceActivity';
+import { ContentBlockedError, logSafetyEvent, screenText } from '../services/safety';
+import { getPrivacySettings, onPrivacyChange } from '../services/privacy';
+import StarRating from './StarRating';
+import ArtGallery from './ArtGallery';
+import ColoringPage from './ColoringPage';
+import MicNotice from './MicNotice';
 
 interface ChatMessage {
     role: 'user' | 'ai';
@@ -10,55 +29,124 @@ interface ChatMessage {
     id: string;
 }
 
+// One step of the picture. Drawing after an undo branches off the version
+// being shown; the later versions stay around to swipe back to.
+interface SceneVersion {
+    id: string;
+    scene: Scene;
+    url: string;
+    parentId: string | null;
+}
+
 interface DrawTabProps {
     onStateChange: (state: VoiceState) => void;
 }
 
-// Random prompts for kids to keep it fresh
-const SCENARIOS = [
-    { text: "可以说 'Apple' 或者 'Car'！", speakText: "小朋友，我们来画画吧！你可以说 Apple，或者 Car！" },
-    { text: "可以说 'Big Lion'！", speakText: "小朋友，试试说 Big Lion！大狮子！" },
-    { text: "可以说 'Red Flower'！", speakText: "你可以说 Red Flower！红色的花！" },
-    { text: "可以说 'Blue Bird'！", speakText: "试试说 Blue Bird！蓝色的小鸟！" },
-    { text: "可以说 'Yummy Banana'！", speakText: "你可以说 Yummy Banana！好吃的香蕉！" },
-    { text: "可以说 'Huge Dinosaur'！", speakText: "哇，试试说 Huge Dinosaur！大恐龙！" },
+// Horizontal drag (px) that counts as a swipe between versions
+const SWIPE_THRESHOLD_PX = 50;
+
+// Tool result when a drawing is held back by the safety checks
+const CANT_DRAW = "That can't be drawn. Without repeating it, gently tell the child Gemi can't draw that one, then suggest something fun and friendly to draw instead.";
+
+interface Scenario {
+    text: string;
+    speakText: string;
+}
+
+const SCENARIO_LINES = [
+    (word: string, meaning: string) => `小朋友，试试说 ${word}！${meaning}！`,
+    (word: string, meaning: string) => `你可以说 ${word}！${meaning}！`,
+    (word: string, meaning: string) => `哇，试试说 ${word}！${meaning}！`,
 ];
 
+// Random prompts for kids to keep it fresh, in the language being learned
+const buildScenarios = (target: LanguageInfo): Scenario[] =>
+    target.starterWords.map(({ word, meaning }, i) => ({
+        text: `可以说 '${word}'！`,
+        speakText: SCENARIO_LINES[i % SCENARIO_LINES.length](word, meaning),
+    }));
+
 const DrawTab: React.FC<DrawTabProps> = ({ onStateChange }) => {
-  const [generatedUrl, setGeneratedUrl] = useState<string | null>(null);
+  const [versions, setVersions] = useState<SceneVersion[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [currentScenario, setCurrentScenario] = useState(SCENARIOS[0]);
+  const { languages } = useLanguages();
+  const { activeProfile } = useProfiles();
+  const [currentScenario, setCurrentScenario] = useState<Scenario | null>(null);
+  const [practiceResult, setPracticeResult] = useState<{ stars: number; heard: string } | null>(null);
+  const [showGallery, setShowGallery] = useState(false);
+  // Scene prompt being colored in, while the coloring page is open
+  const [coloringPrompt, setColoringPrompt] = useState<string | null>(null);
+  const [micAllowed, setMicAllowed] = useState(getPrivacySettings().allowMic);
   
-  const sessionRef = useRef<LiveVoiceSession | null>(null);
+  const ai = useAiProvider();
+  const sessionRef = useRef<LiveSession | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const introAudioCtxRef = useRef<AudioContext | null>(null);
+  const introPlaybackRef = useRef<Playback | null>(null);
+  // Mirrors of the history for the tool handlers, which outlive renders
+  const versionsRef = useRef<SceneVersion[]>([]);
+  const currentIdRef = useRef<string | null>(null);
+  const touchStartXRef = useRef<number | null>(null);
+  // This session's entry in the gallery
+  const artworkRef = useRef({ id: Date.now().toString(), createdAt: Date.now() });
+  // Word just drawn that the child is asked to say back. The turn in which
+  // it was introduced is still finishing when the tool runs, so skip that one.
+  const practiceRef = useRef<{ card: FlashCardData; skipTurn: boolean } | null>(null);
+
+  useEffect(() => onPrivacyChange(settings => setMicAllowed(settings.allowMic)), []);
 
   // Auto-scroll to bottom of chat
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Let the stars linger a moment, then give the canvas back
+  useEffect(() => {
+    if (!practiceResult) return;
+    const timer = setTimeout(() => setPracticeResult(null), 5000);
+    return () => clearTimeout(timer);
+  }, [practiceResult]);
+
+  // Keep the picture being shown in the gallery, so it outlives the tab
+  useEffect(() => {
+    const version = versions.find(v => v.id === currentId);
+    if (!version) return;
+    saveArtwork({
+        ...artworkRef.current,
+        profileId: activeProfile.id,
+        image: version.url,
+        prompt: composeImagePrompt(version.scene),
+        words: sceneWords(version.scene),
+        targetLanguage: languages.target,
+        updatedAt: Date.now(),
+    }).catch(err => console.error("Saving artwork failed", err));
+  }, [currentId]);
+
+  // Gemi stops listening while the child is in the gallery or coloring
+  const isAway = showGallery || coloringPrompt !== null;
+  useEffect(() => {
+    sessionRef.current?.setListening(!isAway);
+  }, [isAway]);
+
   // Initialize Random Scenario and Speak it using AI Model
   useEffect(() => {
-    const random = SCENARIOS[Math.floor(Math.random() * SCENARIOS.length)];
+    // The intro asks the child to speak, which needs the mic
+    if (!micAllowed) return;
+    const scenarios = buildScenarios(LANGUAGES[languages.target]);
+    const random = scenarios[Math.floor(Math.random() * scenarios.length)];
     setCurrentScenario(random);
 
     const speakIntro = async () => {
         try {
-            const buffer = await generateSpeech(random.speakText);
-            if (buffer) {
-                const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-                introAudioCtxRef.current = ctx;
-                
-                const source = ctx.createBufferSource();
-                source.buffer = buffer;
-                source.connect(ctx.destination);
-                source.start(0);
-            }
+            const buffer = await getSpeech(ai, random.speakText, languages.target);
+            if (buffer) introPlaybackRef.current = audioPlayback.play(buffer, { priority: 'effect' });
         } catch (e) {
             console.error("Intro speech failed", e);
         }
+        // Cache the other intros so the next visit starts talking right away
+        prewarmSpeech(ai, scenarios.map(s => s.speakText), languages.target)
+            .catch(e => console.error("Prewarming speech failed", e));
     };
 
     // Small delay to ensure component is mounted
@@ -66,30 +154,212 @@ const DrawTab: React.FC<DrawTabProps> = ({ onStateChange }) => {
     
     return () => {
         clearTimeout(timer);
-        if (introAudioCtxRef.current) {
-            introAudioCtxRef.current.close();
-            introAudioCtxRef.current = null;
-        }
+        introPlaybackRef.current?.stop();
+        introPlaybackRef.current = null;
     };
-  }, []);
+  }, [ai, languages.target, micAllowed]);
+
+  // --- Scene History ---
+  const findVersion = (id: string | null) => versionsRef.current.find(v => v.id === id) ?? null;
+  const currentScene = () => findVersion(currentIdRef.current)?.scene ?? EMPTY_SCENE;
+
+  const selectVersion = (id: string | null) => {
+    currentIdRef.current = id;
+    setCurrentId(id);
+  };
+
+  // Undo or swipe: the word to say back belongs to the picture we just left
+  const switchVersion = (id: string | null) => {
+    practiceRef.current = null;
+    selectVersion(id);
+  };
+
+  const addVersion = (scene: Scene, url: string, parentId: string | null) => {
+    const version: SceneVersion = { id: Date.now().toString(), scene, url, parentId };
+    versionsRef.current = [...versionsRef.current, version];
+    setVersions(versionsRef.current);
+    selectVersion(version.id);
+  };
+
+  // Tell the model when the child changes the picture by hand, so it talks
+  // about what's actually on the canvas
+  const showVersionToModel = (id: string | null) => {
+    switchVersion(id);
+    sessionRef.current?.sendText(`System: The child switched to another version of the picture. It now shows:\n${describeScene(currentScene())}`);
+  };
+
+  const handleUndo = () => {
+    const current = findVersion(currentIdRef.current);
+    if (current) showVersionToModel(current.parentId);
+  };
+
+  // Swipes walk the versions in the order they were drawn
+  const handleSwipe = (direction: 1 | -1) => {
+    const list = versionsRef.current;
+    const index = list.findIndex(v => v.id === currentIdRef.current);
+    const next = list[index + direction];
+    if (next) showVersionToModel(next.id);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const startX = touchStartXRef.current;
+    touchStartXRef.current = null;
+    if (startX === null) return;
+    const dx = e.changedTouches[0].clientX - startX;
+    if (Math.abs(dx) >= SWIPE_THRESHOLD_PX) handleSwipe(dx < 0 ? 1 : -1);
+  };
+
+  const speakWord = async (word: string) => {
+    try {
+      const buffer = await getSpeech(ai, word, languages.target);
+      if (buffer) audioPlayback.play(buffer);
+    } catch (e) {
+      console.error("Word speech failed", e);
+    }
+  };
+
+  // --- Scene Changes ---
+  const readCard = (args: any): FlashCardData | null => args.target_word ? vocabularyToCard({
+    targetWord: args.target_word,
+    nativeWord: args.native_word || '',
+    pronunciation: '',
+    emoji: args.emoji || '🎨',
+  }, languages.target) : null;
+
+  // Edits the picture being shown so earlier objects keep their look; a
+  // fresh drawing is the fallback, and the start of an empty canvas
+  const renderScene = async (scene: Scene, change: string, base: SceneVersion | null) => {
+    if (base) {
+      try {
+        return await ai.editKidImage(base.url, composeEditInstruction(change, scene));
+      } catch (e) {
+        // Redrawing something refused as an edit would be refused too
+        if (e instanceof ContentBlockedError) throw e;
+        console.error("Image edit failed, redrawing", e);
+      }
+    }
+    return ai.generateKidImage(composeImagePrompt(scene));
+  };
+
+  // Draws the changed scene as a new version and tells the model what it shows.
+  // `change` says what's different, in English, for the image editor.
+  const drawScene = async (scene: Scene, change: string, card: FlashCardData | null) => {
+    // Armed before drawing: the introducing turn can finish while we wait
+    practiceRef.current = card ? { card, skipTurn: true } : null;
+    // The child may swipe while we draw; branch off what was showing when asked
+    const base = findVersion(currentIdRef.current);
+
+    const terms = screenText(`${change} ${card?.targetWord ?? ''} ${card?.nativeWord ?? ''}`).terms;
+    if (terms.length) {
+      practiceRef.current = null;
+      logSafetyEvent(activeProfile.id, AppTab.DRAW, 'filtered', terms, change)
+        .catch(err => console.error("Logging safety event failed", err));
+      return CANT_DRAW;
+    }
+
+    setLoading(true);
+    try {
+      const url = await renderScene(scene, change, base);
+      addVersion(scene, url, base?.id ?? null);
+      setLoading(false);
+      const shows = `Picture updated. It now shows:\n${describeScene(scene)}\n`;
+      if (card) {
+        trackWord(activeProfile.id, card, 'draw').catch(err => console.error("Tracking word failed", err));
+        return `${shows}Enthusiastically describe the change, ask the child to say "${card.targetWord}" back to you, praise the try, then ask what to add next.`;
+      }
+      return `${shows}Enthusiastically describe the change to the child and ask what to add next to make it even better.`;
+    } catch (e) {
+      setLoading(false);
+      practiceRef.current = null;
+      if (e instanceof ContentBlockedError) {
+        logSafetyEvent(activeProfile.id, AppTab.DRAW, 'blocked', [], change)
+          .catch(err => console.error("Logging safety event failed", err));
+        return CANT_DRAW;
+      }
+      return "Failed to draw. Tell the child magic hiccuped.";
+    }
+  };
+
+  const notInScene = (name: string, scene: Scene) =>
+    `There is no "${name}" in the picture. It shows:\n${describeScene(scene)}\nAsk the child which one they mean.`;
+
+  // Tool Definitions
+  const wordProperties = {
+    target_word: { type: Type.STRING, description: 'The word the child learns with this change, in the language being learned.' },
+    native_word: { type: Type.STRING, description: "The same word in the child's native language." },
+    emoji: { type: Type.STRING, description: 'An emoji for the word.' },
+  };
 
-  // Tool Definition
-  const drawTool: FunctionDeclaration = {
-    name: 'draw_kid_image',
-    description: 'Draws a complete scene based on a full English visual description.',
+  const addObjectTool: FunctionDeclaration = {
+    name: 'add_object',
+    description: 'Adds one new thing to the picture. Everything already in it stays.',
     parameters: {
         type: Type.OBJECT,
         properties: {
-            english_prompt: { type: Type.STRING, description: 'The FULL description of the scene, including all previous objects and the new addition.' }
+            object: { type: Type.STRING, description: 'What to add, in English, e.g. "car".' },
+            color: { type: Type.STRING, description: 'Its color in English, e.g. "red".' },
+            size: { type: Type.STRING, enum: ['small', 'medium', 'big'], description: 'How big it is.' },
+            position: { type: Type.STRING, description: 'Where it is, in English, e.g. "in the sky" or "next to the house".' },
+            ...wordProperties,
         },
-        required: ['english_prompt']
+        required: ['object', 'target_word']
     }
   };
 
+  const removeObjectTool: FunctionDeclaration = {
+    name: 'remove_object',
+    description: 'Takes one thing out of the picture.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            object: { type: Type.STRING, description: 'The thing to remove, as named in the picture.' },
+        },
+        required: ['object']
+    }
+  };
+
+  const changeColorTool: FunctionDeclaration = {
+    name: 'change_color',
+    description: 'Paints one thing in the picture a different color.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            object: { type: Type.STRING, description: 'The thing to repaint, as named in the picture.' },
+            color: { type: Type.STRING, description: 'The new color in English.' },
+            ...wordProperties,
+        },
+        required: ['object', 'color']
+    }
+  };
+
+  const setBackgroundTool: FunctionDeclaration = {
+    name: 'set_background',
+    description: 'Changes where the picture takes place. The things in it stay.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            background: { type: Type.STRING, description: 'The new background in English, e.g. "a sunny beach".' },
+            ...wordProperties,
+        },
+        required: ['background']
+    }
+  };
+
+  const undoTool: FunctionDeclaration = {
+    name: 'undo_drawing',
+    description: 'Goes back to the previous version of the picture, when the child wants to take back the last change.',
+  };
+
   useEffect(() => {
+    // Nothing connects, or asks for the mic, until a parent allows voice chat
+    if (!micAllowed) {
+        onStateChange('micOff');
+        return;
+    }
     onStateChange('connecting');
+    const recorder = new TranscriptRecorder(activeProfile.id, AppTab.DRAW, languages.target);
 
-    const session = new LiveVoiceSession(
+    const session = ai.createLiveSession(
         (speaking) => {
             onStateChange(speaking ? 'speaking' : 'listening');
         },
@@ -98,60 +368,121 @@ const DrawTab: React.FC<DrawTabProps> = ({ onStateChange }) => {
             onStateChange('error');
         },
         (userText, aiText, isFinal) => {
+            recorder.handleTranscription(userText, aiText, isFinal);
             if (isFinal) {
-                if (userText.trim()) {
-                    setMessages(prev => [...prev, { role: 'user', text: userText, id: Date.now() + 'u' }]);
+                // Shown with the same words masked as in the transcript
+                const heard = screenText(userText.trim()).text;
+                const said = screenText(aiText.trim()).text;
+                if (heard) {
+                    setMessages(prev => [...prev, { role: 'user', text: heard, id: Date.now() + 'u' }]);
                 }
-                if (aiText.trim()) {
-                    setMessages(prev => [...prev, { role: 'ai', text: aiText, id: Date.now() + 'a' }]);
+                if (said) {
+                    setMessages(prev => [...prev, { role: 'ai', text: said, id: Date.now() + 'a' }]);
+                }
+
+                const practice = practiceRef.current;
+                if (practice?.skipTurn) {
+                    practice.skipTurn = false;
+                } else if (practice && heard) {
+                    practiceRef.current = null;
+                    const score = scorePronunciation(userText, practice.card);
+                    setPracticeResult({ stars: score.stars, heard });
+                    recordAttempt(activeProfile.id, practice.card, heard, score, 'draw')
+                        .catch(err => console.error("Saving attempt failed", err));
                 }
             }
         }
     );
     sessionRef.current = session;
 
+    const target = LANGUAGES[languages.target];
+    const native = LANGUAGES[languages.native];
+    const age = activeProfile.age;
+    const difficulty = getDifficulty(age);
+
     const magicArtistPrompt = `
-      你是一位神奇的魔法画师，正在和3-4岁的小朋友一起**创作一幅完整的画**。
+      你是一位神奇的魔法画师，正在和${age}岁的小朋友${activeProfile.name}一起**创作一幅完整的画**，同时帮小朋友学习${target.label}（${target.englishName}）。
+      小朋友和家长的母语是${native.label}。
+      **难度**: 每句话不超过 ${difficulty.maxSentenceWords} 个词。Vocabulary: ${difficulty.vocabulary}
       
-      **核心逻辑 - 场景累加**:
-      1.  你必须在心中维护一个【当前场景描述】。初始为空白。
-      2.  当小朋友提到一个新物体（例如 "Car"）时，不要只画这个物体！
-      3.  **必须**将新物体**融合**到【当前场景描述】中。
-      4.  **调用工具**时，\`english_prompt\` 参数必须包含**整个场景**的所有元素。
+      **核心逻辑 - 画里有什么由 App 记住**:
+      1.  画面里的东西和背景都由 App 保存。你**不用**自己记整个场景，也不要自己写完整的画面描述。
+      2.  每次只告诉 App **改什么**，一次一个工具：
+          - 加一个新东西：\`add_object\`（\`object\` 用英文名，可以加 \`color\`、\`size\`、\`position\`）。
+          - 拿掉一个东西：\`remove_object\`。
+          - 换颜色：\`change_color\`。
+          - 换背景（海边、森林、太空……）：\`set_background\`。
+      3.  工具会告诉你画面现在有什么，一切以它为准。
           - 例子：
-            - 第一轮：孩子说 "Apple"。场景："One red apple on a table". -> 画图。
-            - 第二轮：孩子说 "Banana"。场景："One red apple AND a yellow banana on a table". -> 画图。
-            - 第三轮：孩子说 "Bird"。场景："One red apple and a yellow banana on a table, with a cute bird flying above". -> 画图。
+            - 孩子说 "Apple"。-> \`add_object\`(object: "apple", color: "red", target_word: "Apple")
+            - 孩子说 "要蓝色的"。-> \`change_color\`(object: "apple", color: "blue")
+            - 孩子说 "在海边"。-> \`set_background\`(background: "a sunny beach")
 
       **行为指南**:
-      1.  **入场引导 (中文)**: 连接后，请等待几秒钟（让小朋友听完界面提示音），然后热情打招呼：“你好呀！我是魔法画板。你想画什么？我们开始吧！”
+      1.  **入场引导 (${native.label})**: 连接后，请等待几秒钟（让小朋友听完界面提示音），然后热情打招呼：“你好呀！我是魔法画板。你想画什么？我们开始吧！”
       2.  **互动与确认**:
-          - 听到单词后，先用中文确认，并重复英文单词。
-          - 确认后，**立刻**调用 \`draw_kid_image\`。
+          - 听到单词后，先用${native.label}确认，并用${target.label}重复这个单词。
+          - 小朋友说${native.label}的时候，告诉他这个东西用${target.label}怎么说。
+          - 确认后，**立刻**调用 \`add_object\`，并填写 \`target_word\`（这次学的${target.label}单词）、\`native_word\`（${native.label}意思）和 \`emoji\`。
           - 话术：“哇！是 Red Car！红色的车！我把它画到我们的画里去！”
+          - 画好后，请小朋友跟你读一遍这个${target.label}单词（“跟我说：Car！”），听完再继续。
       3.  **引导完善场景 (重要)**:
           - 画完后，不要停！根据当前画面提问，引导孩子添加更多细节。
           - 例子：“车车画好了！但是马路上空空的。车车要去哪里呢？需不需要画一个 House（房子）或者 Traffic Light（红绿灯）？”
           - 例子：“天空好蓝啊，要不要加个 Sun（太阳）或者 Cloud（云朵）？”
+          - 例子里的英文只是示范，实际要用${target.label}说物体的名字。
+          - 工具里的 \`object\`、\`color\`、\`position\`、\`background\` 永远用英文写（给画图用）。
+
+      4.  **撤销**:
+          - 小朋友说“撤销”、“不要了”、“回去”、“undo”之类的话时，调用 \`undo_drawing\`，然后告诉小朋友画变回了什么样子，再问要画什么。
+          - 收到 "System:" 开头的消息说小朋友自己换了一幅画时，就按消息里的画面继续。
 
       **Tone**: 充满童趣，超级热情，像幼儿园老师一样鼓励孩子。总是用“我们”来指代创作过程。
     `;
 
     session.connect({
         systemInstruction: magicArtistPrompt,
-        tools: [{ functionDeclarations: [drawTool] }],
+        vadSensitivity: sensitivityForAge(age),
+        tools: [{ functionDeclarations: [addObjectTool, removeObjectTool, changeColorTool, setBackgroundTool, undoTool] }],
+        onConnectionStateChange: (state) => {
+            onStateChange(state === 'reconnecting' ? 'reconnecting' : 'listening');
+        },
+        getResumeContext: () => currentIdRef.current
+            ? `The picture so far:\n${describeScene(currentScene())}\nKeep adding to this scene.`
+            : "",
         onToolCall: async (name, args) => {
-            if (name === 'draw_kid_image') {
-                setLoading(true);
-                try {
-                    const url = await generateKidImage(args.english_prompt);
-                    setGeneratedUrl(url);
-                    setLoading(false);
-                    return "Image drawn. Now enthusiastically describe the NEW full scene to the child and ask what to add next to make it even better.";
-                } catch (e) {
-                    setLoading(false);
-                    return "Failed to draw. Tell the child magic hiccuped.";
-                }
+            const scene = currentScene();
+            if (name === 'add_object') {
+                const next = addObject(scene, {
+                    name: args.object,
+                    color: args.color,
+                    size: toObjectSize(args.size),
+                    position: args.position,
+                    targetWord: args.target_word,
+                    nativeWord: args.native_word,
+                    emoji: args.emoji,
+                });
+                const added = next.objects[next.objects.length - 1];
+                return drawScene(next, `Add a ${describeObject(added)}.`, readCard(args));
+            }
+            if (name === 'remove_object') {
+                const obj = findObject(scene, args.object);
+                if (!obj) return notInScene(args.object, scene);
+                return drawScene(removeObject(scene, obj.id), `Remove the ${describeObject(obj)}.`, null);
+            }
+            if (name === 'change_color') {
+                const obj = findObject(scene, args.object);
+                if (!obj) return notInScene(args.object, scene);
+                return drawScene(changeColor(scene, obj.id, args.color), `Make the ${describeObject(obj)} ${args.color}.`, readCard(args));
+            }
+            if (name === 'set_background') {
+                return drawScene(setBackground(scene, args.background, args.target_word), `Change the background to ${args.background}.`, readCard(args));
+            }
+            if (name === 'undo_drawing') {
+                const current = findVersion(currentIdRef.current);
+                if (!current) return "Nothing to undo, the canvas is already empty. Ask the child what to draw.";
+                switchVersion(current.parentId);
+                return `Went back one step. The picture now shows:\n${describeScene(currentScene())}\nTell the child and ask what to add instead.`;
             }
         }
     }).then(() => {
@@ -163,17 +494,38 @@ const DrawTab: React.FC<DrawTabProps> = ({ onStateChange }) => {
     return () => {
         session.disconnect();
     };
-  }, []);
+  }, [ai, languages.target, languages.native, activeProfile.id, activeProfile.age, activeProfile.name, micAllowed]);
+
+  const currentVersion = versions.find(v => v.id === currentId) ?? null;
 
   return (
     <div className="flex flex-col h-full bg-purple-50 relative overflow-hidden">
+      {showGallery && (
+        <div className="absolute inset-0 z-30 bg-purple-50">
+            <ArtGallery onClose={() => setShowGallery(false)} />
+        </div>
+      )}
+      {coloringPrompt !== null && (
+        <div className="absolute inset-0 z-30 bg-purple-50">
+            <ColoringPage prompt={coloringPrompt} onClose={() => setColoringPrompt(null)} />
+        </div>
+      )}
       
       {/* Top Area: Image Canvas - Maximized */}
       <div className="h-[60%] bg-white p-4 shadow-sm z-10 rounded-b-[3rem] flex flex-col items-center justify-center relative overflow-hidden border-b-4 border-purple-100 transition-all duration-500">
         
-        <div className="w-full h-full relative flex items-center justify-center p-2">
-            {generatedUrl ? (
-            <img src={generatedUrl} alt="Generated" className="w-full h-full object-cover rounded-2xl shadow-inner animate-in fade-in zoom-in duration-700" />
+        <div
+            className="w-full h-full relative flex items-center justify-center p-2"
+            onTouchStart={(e) => { touchStartXRef.current = e.touches[0].clientX; }}
+            onTouchEnd={handleTouchEnd}
+        >
+            {practiceResult && (
+                <div className="absolute top-4 inset-x-4 z-20 bg-white/95 rounded-3xl shadow-lg p-4">
+                    <StarRating stars={practiceResult.stars} heard={practiceResult.heard} />
+                </div>
+            )}
+            {currentVersion ? (
+            <img key={currentVersion.id} src={currentVersion.url} alt="Generated" className="w-full h-full object-cover rounded-2xl shadow-inner animate-in fade-in zoom-in duration-700" />
             ) : loading ? (
             <div className="flex flex-col items-center justify-center text-purple-400">
                 <div className="relative">
@@ -182,18 +534,78 @@ const DrawTab: React.FC<DrawTabProps> = ({ onStateChange }) => {
                 </div>
                 <p className="font-bold text-2xl animate-pulse text-purple-500">正在施展魔法...</p>
             </div>
-            ) : (
+            ) : micAllowed ? (
             <div className="text-center text-purple-200">
                 <Palette size={80} className="mx-auto mb-4 opacity-40" />
-                <p className="font-bold text-xl opacity-50 transition-all duration-500">{currentScenario.text}</p>
+                <p className="font-bold text-xl opacity-50 transition-all duration-500">{currentScenario?.text}</p>
             </div>
+            ) : (
+            <MicNotice />
+            )}
+
+            {currentVersion && (
+                <button
+                    onClick={handleUndo}
+                    disabled={loading}
+                    className="absolute bottom-4 left-4 z-20 bg-white/90 text-purple-500 rounded-full p-3 shadow-md active:scale-95 transition-transform disabled:opacity-50"
+                >
+                    <Undo2 size={28} />
+                </button>
+            )}
+            {currentVersion && (
+                <button
+                    onClick={() => setColoringPrompt(composeImagePrompt(currentVersion.scene))}
+                    className="absolute bottom-4 right-20 z-20 bg-white/90 text-purple-500 rounded-full p-3 shadow-md active:scale-95 transition-transform"
+                >
+                    <Paintbrush size={28} />
+                </button>
+            )}
+            <button
+                onClick={() => setShowGallery(true)}
+                className="absolute bottom-4 right-4 z-20 bg-white/90 text-purple-500 rounded-full p-3 shadow-md active:scale-95 transition-transform"
+            >
+                <Images size={28} />
+            </button>
+            {versions.length > 1 && (
+                <div className="absolute bottom-6 inset-x-0 flex justify-center gap-2 pointer-events-none">
+                    {versions.map(v => (
+                        <span
+                            key={v.id}
+                            className={`h-2.5 rounded-full transition-all ${v.id === currentId ? 'w-6 bg-purple-500' : 'w-2.5 bg-white/80'}`}
+                        />
+                    ))}
+                </div>
             )}
         </div>
         
       </div>
 
+      {/* Scene Chips: what's in the picture; tap to hear the word */}
+      {currentVersion && (currentVersion.scene.objects.length > 0 || currentVersion.scene.background) && (
+        <div className="flex gap-2 overflow-x-auto px-4 pt-4 pb-1">
+            {currentVersion.scene.background && (
+                <button
+                    onClick={() => currentVersion.scene.backgroundWord && speakWord(currentVersion.scene.backgroundWord)}
+                    className="shrink-0 px-4 py-2 rounded-full bg-purple-100 text-purple-600 font-bold shadow-sm active:scale-95 transition-transform"
+                >
+                    🏞️ {currentVersion.scene.backgroundWord || currentVersion.scene.background}
+                </button>
+            )}
+            {currentVersion.scene.objects.map(obj => (
+                <button
+                    key={obj.id}
+                    onClick={() => speakWord(obj.targetWord || obj.name)}
+                    className="shrink-0 px-4 py-2 rounded-full bg-white text-purple-600 font-bold shadow-sm border-2 border-purple-100 active:scale-95 transition-transform"
+                >
+                    {obj.emoji || '🎨'} {obj.targetWord || obj.name}
+                </button>
+            ))}
+        </div>
+      )}
+
       {/* Bottom Area: Chat History */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 scroll-smooth pb-24">
+        {micAllowed && <MicNotice />}
         {messages.map((msg) => (
             <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                 <div className={`
@@ -0,0 +1,39 @@
+import React, { useState, useEffect } from 'react';
+import { getPrivacySettings, onPrivacyChange } from '../services/privacy';
+import ParentalSettings from './ParentalSettings';
+import { Mic, MicOff, Settings } from 'lucide-react';
+
+// Says what the microphone sends while Gemi can listen, or, while voice
+// chat is off, that a parent has to turn it on
+const MicNotice: React.FC = () => {
+  const [settings, setSettings] = useState(getPrivacySettings());
+  const [showSettings, setShowSettings] = useState(false);
+
+  useEffect(() => onPrivacyChange(setSettings), []);
+
+  if (!settings.allowMic) {
+    return (
+      <div className="bg-white rounded-3xl shadow p-6 text-center space-y-3 max-w-xs mx-auto">
+        <MicOff size={40} className="mx-auto text-gray-300" />
+        <p className="font-black text-gray-500">麦克风还没打开</p>
+        <p className="text-sm font-bold text-gray-400">请爸爸妈妈在家长设置里打开语音对话</p>
+        <button
+          onClick={() => setShowSettings(true)}
+          className="bg-orange-500 text-white px-5 py-2 rounded-2xl font-bold shadow inline-flex items-center gap-2"
+        >
+          <Settings size={18} /> 家长设置
+        </button>
+        {showSettings && <ParentalSettings onClose={() => setShowSettings(false)} />}
+      </div>
+    );
+  }
+
+  return (
+    <p className="text-xs font-bold text-gray-400 flex items-center justify-center gap-1 text-center">
+      <Mic size={14} className="text-green-500" />
+      麦克风已打开：听到说话时，声音会发送给 Google Gemini{settings.keepTranscripts ? '，对话会保存为文字记录' : ''}
+    </p>
+  );
+};
+
+export default MicNotice;
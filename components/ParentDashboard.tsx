@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { AppTab } from '../types';
+import { useAiProvider } from '../services/AiProviderContext';
+import { useLanguages, useProfiles } from '../services/ProfileContext';
+import { buildProgressReport, reportToLog, ProgressReport } from '../services/progressReport';
+import { MAX_STARS } from '../services/pronunciation';
+import { ArrowLeft, BarChart3, Sparkles, RefreshCw, Loader2, ShieldCheck } from 'lucide-react';
+
+interface ParentDashboardProps {
+  onClose: () => void;
+}
+
+const TAB_NAMES: Record<AppTab, string> = {
+  [AppTab.STORY]: '绘本',
+  [AppTab.PHOTO]: '拍照学',
+  [AppTab.DRAW]: '魔法画板',
+  [AppTab.CHAT]: '旁听',
+};
+
+const TABS = Object.keys(TAB_NAMES) as AppTab[];
+
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+
+// One bar per day, scaled to the busiest day
+const DayBars: React.FC<{ days: string[]; values: number[]; color: string }> = ({ days, values, color }) => {
+  const max = Math.max(1, ...values);
+  return (
+    <div className="flex items-end justify-between gap-2 h-32">
+      {days.map((day, i) => (
+        <div key={day} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+          <span className="text-xs font-bold text-gray-500">{values[i] || ''}</span>
+          <div className={`w-full rounded-t-lg ${color}`} style={{ height: `${(values[i] / max) * 100}%`, minHeight: values[i] ? 4 : 0 }} />
+          <span className="text-xs font-bold text-gray-400">{WEEKDAYS[new Date(`${day}T00:00:00`).getDay()]}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: string | number }> = ({ label, value }) => (
+  <div className="bg-white rounded-2xl shadow p-3 text-center">
+    <p className="text-2xl font-black text-orange-500">{value}</p>
+    <p className="text-xs font-bold text-gray-400">{label}</p>
+  </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-white rounded-3xl shadow p-4">
+    <h2 className="font-black text-gray-600 mb-3">{title}</h2>
+    {children}
+  </div>
+);
+
+const ParentDashboard: React.FC<ParentDashboardProps> = ({ onClose }) => {
+  const ai = useAiProvider();
+  const { activeProfile } = useProfiles();
+  const { languages } = useLanguages();
+  const [report, setReport] = useState<ProgressReport | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [summarizing, setSummarizing] = useState(false);
+
+  useEffect(() => {
+    setReport(null);
+    setSummary(null);
+    buildProgressReport(activeProfile.id).then(setReport).catch(err => console.error("Loading report failed", err));
+  }, [activeProfile.id]);
+
+  const summarize = async () => {
+    if (!report) return;
+    setSummarizing(true);
+    try {
+      setSummary(await ai.summarizeWeek(reportToLog(report), languages, activeProfile.age));
+    } catch (err) {
+      console.error("Weekly summary failed", err);
+      alert("Oops! Couldn't write the weekly summary.");
+    } finally {
+      setSummarizing(false);
+    }
+  };
+
+  const tabMinutes: number[] = report ? TABS.map(tab => report.minutesPerTab[tab]) : [];
+  const totalMinutes = tabMinutes.reduce((sum, minutes) => sum + minutes, 0);
+  const maxTabMinutes = Math.max(1, ...tabMinutes);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-yellow-50 overflow-y-auto">
+      <div className="flex flex-col w-full max-w-md mx-auto p-4 pb-12 space-y-4">
+        <div className="flex items-center gap-2">
+          <button onClick={onClose} className="p-2 rounded-full bg-white shadow text-orange-500">
+            <ArrowLeft size={24} />
+          </button>
+          <h1 className="text-2xl font-black text-orange-500 flex items-center gap-2">
+            <BarChart3 className="text-orange-400" /> 学习报告
+          </h1>
+          <span className="ml-auto text-sm font-bold text-gray-500">{activeProfile.avatar} {activeProfile.name}</span>
+        </div>
+
+        {!report ? (
+          <div className="flex flex-col items-center text-gray-400 mt-16">
+            <Loader2 size={40} className="animate-spin mb-2 text-orange-400" />
+            <p className="font-bold">正在整理...</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm font-bold text-gray-400 text-center">
+              {report.days[0]} ~ {report.days[report.days.length - 1]}
+            </p>
+
+            <div className="grid grid-cols-4 gap-2">
+              <Stat label="新词" value={report.newWords.length} />
+              <Stat label="练过的词" value={report.wordsPracticed} />
+              <Stat label="跟读" value={report.pronunciationAttempts} />
+              <Stat label="分钟" value={Math.round(totalMinutes)} />
+            </div>
+
+            <Section title="本周总结">
+              {summary ? (
+                <p className="text-gray-600 leading-relaxed whitespace-pre-line">{summary}</p>
+              ) : (
+                <p className="text-sm text-gray-400">根据这一周的学习记录，让 Gemi 写一段给家长的小结。</p>
+              )}
+              <button
+                onClick={summarize}
+                disabled={summarizing}
+                className="mt-3 w-full bg-orange-500 text-white py-2 rounded-2xl font-bold shadow flex items-center justify-center gap-2 disabled:opacity-60"
+              >
+                {summarizing ? <RefreshCw size={18} className="animate-spin" /> : <Sparkles size={18} />}
+                {summarizing ? '正在写...' : summary ? '重新生成' : '生成本周总结'}
+              </button>
+            </Section>
+
+            <Section title="每天学的新词">
+              <DayBars days={report.days} values={report.newWordsPerDay} color="bg-orange-400" />
+              <p className="text-xs font-bold text-gray-400 mt-2">
+                拍照 {report.newWordsBySource.photo} · 画板 {report.newWordsBySource.draw} · 绘本 {report.newWordsBySource.story}
+              </p>
+            </Section>
+
+            <Section title="每天练习次数">
+              <DayBars days={report.days} values={report.practicePerDay} color="bg-blue-400" />
+              <p className="text-xs font-bold text-gray-400 mt-2">复习卡片和跟读都算一次</p>
+            </Section>
+
+            <Section title="各板块用时">
+              <div className="space-y-2">
+                {TABS.map(tab => (
+                  <div key={tab} className="flex items-center gap-2">
+                    <span className="w-16 text-sm font-bold text-gray-500">{TAB_NAMES[tab]}</span>
+                    <div className="flex-1 bg-gray-100 rounded-full h-3 overflow-hidden">
+                      <div className="bg-green-400 h-full rounded-full" style={{ width: `${(report.minutesPerTab[tab] / maxTabMinutes) * 100}%` }} />
+                    </div>
+                    <span className="w-14 text-right text-sm font-bold text-gray-500">{Math.round(report.minutesPerTab[tab])} 分钟</span>
+                  </div>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="跟读练习">
+              <p className="text-gray-600 font-bold">
+                共 {report.pronunciationAttempts} 次
+                {report.averageStars !== null && `，平均 ${report.averageStars.toFixed(1)} / ${MAX_STARS} 颗星`}
+              </p>
+              {report.wordsToPractice.length > 0 && (
+                <>
+                  <p className="text-sm text-gray-400 mt-2 mb-1">还需要多练的词：</p>
+                  <div className="flex flex-wrap gap-2">
+                    {report.wordsToPractice.map(word => (
+                      <span key={word} className="px-3 py-1 rounded-full bg-pink-50 text-pink-600 font-bold text-sm">{word}</span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </Section>
+
+            <Section title="本周新词">
+              {report.newWords.length ? (
+                <div className="flex flex-wrap gap-2">
+                  {report.newWords.map(card => (
+                    <span key={card.targetWord} className="px-3 py-1 rounded-full bg-yellow-100 text-orange-600 font-bold text-sm">
+                      {card.emoji} {card.targetWord}
+                      <span className="text-gray-400 font-medium"> {card.nativeWord}</span>
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400">这周还没有新词</p>
+              )}
+            </Section>
+
+            <Section title="安全过滤">
+              {report.safetyEvents.length ? (
+                <div className="space-y-3">
+                  {report.safetyEvents.map(event => (
+                    <div key={event.id} className="border-b border-gray-100 pb-2 last:border-0 last:pb-0">
+                      <div className="flex items-center gap-2 text-xs font-bold">
+                        <span className="text-gray-400">{new Date(event.at).toLocaleString()}</span>
+                        <span className="text-orange-400 bg-orange-50 px-2 py-0.5 rounded-full">{TAB_NAMES[event.tab]}</span>
+                        <span className="ml-auto text-red-400">{event.kind === 'blocked' ? 'AI 拒绝生成' : '词语过滤'}</span>
+                      </div>
+                      {event.terms.length > 0 && (
+                        <p className="text-sm font-bold text-red-500 mt-1">{event.terms.join('、')}</p>
+                      )}
+                      {event.excerpt && <p className="text-sm text-gray-500 mt-1">{event.excerpt}</p>}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400 flex items-center gap-1">
+                  <ShieldCheck size={16} className="text-green-500" /> 这周没有需要拦下的内容
+                </p>
+              )}
+            </Section>
+
+            <div className="grid grid-cols-3 gap-2">
+              <Stat label="读过的绘本" value={report.booksRead} />
+              <Stat label="语音对话" value={report.voiceSessions.length} />
+              <Stat label="已掌握" value={`${report.retention.masteredWords}/${report.retention.totalWords}`} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ParentDashboard;
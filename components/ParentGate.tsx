@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { X, Lock } from 'lucide-react';
+
+interface ParentGateProps {
+  onPass: () => void;
+  onClose: () => void;
+}
+
+// A sum too hard for preschoolers keeps small fingers out of parent pages
+const newQuestion = () => {
+  const a = 6 + Math.floor(Math.random() * 4);
+  const b = 6 + Math.floor(Math.random() * 4);
+  return { a, b, answer: a * b };
+};
+
+const ParentGate: React.FC<ParentGateProps> = ({ onPass, onClose }) => {
+  const [question, setQuestion] = useState(newQuestion);
+  const [input, setInput] = useState('');
+  const [wrong, setWrong] = useState(false);
+
+  const check = () => {
+    if (Number(input) === question.answer) {
+      onPass();
+      return;
+    }
+    setWrong(true);
+    setInput('');
+    setQuestion(newQuestion());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm p-6 space-y-5 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400">
+          <X size={24} />
+        </button>
+
+        <h2 className="text-2xl font-black text-orange-500 text-center flex items-center justify-center gap-2">
+          <Lock size={22} /> 请家长回答
+        </h2>
+
+        <p className="text-4xl font-black text-gray-700 text-center">
+          {question.a} × {question.b} = ?
+        </p>
+
+        <input
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value.replace(/\D/g, ''));
+            setWrong(false);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && check()}
+          inputMode="numeric"
+          autoFocus
+          className="w-full border-2 border-yellow-200 rounded-2xl px-4 py-3 text-2xl text-center font-bold text-gray-700 outline-none focus:border-yellow-400"
+        />
+        {wrong && <p className="text-center text-red-400 font-bold">不对哦，换一题再试试</p>}
+
+        <button
+          onClick={check}
+          disabled={!input}
+          className="w-full bg-orange-500 text-white py-3 rounded-2xl font-black text-lg shadow disabled:opacity-50"
+        >
+          进入
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ParentGate;
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { ChildProfile, PrivacySettings, ScreenTimeRules } from '../types';
+import { PROFILE_AVATARS, useProfiles } from '../services/ProfileContext';
+import { DEFAULT_LANGUAGE_PAIR } from '../languages';
+import { useParentalControls } from '../services/ParentalControlsContext';
+import { usedTodayMs } from '../services/screenTime';
+import { deleteChildData, getPrivacySettings, onPrivacyChange, savePrivacySettings } from '../services/privacy';
+import { canDetectFaces } from '../services/imageUtils';
+import PinGate from './PinGate';
+import { ArrowLeft, Settings, Timer, Moon, KeyRound, Lock, Trash2 } from 'lucide-react';
+
+interface ParentalSettingsProps {
+  onClose: () => void;
+}
+
+const DAILY_LIMITS = [null, 15, 30, 45, 60, 90];
+const DEFAULT_QUIET_HOURS = { start: '20:00', end: '07:00' };
+
+const Switch: React.FC<{ on: boolean; onToggle: () => void }> = ({ on, onToggle }) => (
+  <button
+    onClick={onToggle}
+    className={`ml-auto shrink-0 w-12 h-7 rounded-full p-1 transition-colors ${on ? 'bg-indigo-500' : 'bg-gray-200'}`}
+  >
+    <span className={`block w-5 h-5 rounded-full bg-white shadow transition-transform ${on ? 'translate-x-5' : ''}`} />
+  </button>
+);
+
+const ProfileRules: React.FC<{ profile: ChildProfile; usedMinutes: number | undefined }> = ({ profile, usedMinutes }) => {
+  const { rulesFor, saveRules, deleteRules } = useParentalControls();
+  const { profiles, saveProfile, deleteProfile } = useProfiles();
+  const rules = rulesFor(profile.id);
+  const save = (changes: Partial<ScreenTimeRules>) => saveRules(profile.id, { ...rules, ...changes });
+
+  const handleDeleteData = async () => {
+    if (!window.confirm(`删除${profile.name}的所有单词、绘本、画作、对话记录、使用记录和时间设置，并清空本机的语音缓存？删除后无法恢复。`)) return;
+    try {
+      await deleteChildData(profile.id);
+      deleteRules(profile.id);
+      // The last profile can't go, so it's set back to a blank one instead
+      const onlyProfile = profiles.length <= 1;
+      if (window.confirm(onlyProfile ? `也清除${profile.name}的名字、年龄和头像吗？` : `也删除${profile.name}的档案吗？`)) {
+        if (onlyProfile) {
+          saveProfile({ id: profile.id, name: '宝贝', avatar: PROFILE_AVATARS[0], age: 3, targetLanguage: DEFAULT_LANGUAGE_PAIR.target });
+        } else {
+          deleteProfile(profile.id);
+        }
+      }
+      alert("已删除。");
+      // Start afresh so nothing still open saves the old data back
+      location.reload();
+    } catch (err) {
+      console.error("Deleting data failed", err);
+      alert("Oops! Couldn't delete everything. Try again!");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <span className="text-3xl">{profile.avatar}</span>
+        <span className="font-black text-gray-600">{profile.name}</span>
+        {usedMinutes !== undefined && (
+          <span className="ml-auto text-sm font-bold text-gray-400">今天已玩 {usedMinutes} 分钟</span>
+        )}
+      </div>
+
+      <div>
+        <p className="font-bold text-gray-500 mb-2 flex items-center gap-1"><Timer size={18} /> 每天可以玩</p>
+        <div className="grid grid-cols-3 gap-2">
+          {DAILY_LIMITS.map(minutes => (
+            <button
+              key={minutes ?? 'none'}
+              onClick={() => save({ dailyMinutes: minutes })}
+              className={`py-2 rounded-xl font-bold ${rules.dailyMinutes === minutes ? 'bg-orange-500 text-white' : 'bg-gray-100 text-gray-500'}`}
+            >
+              {minutes === null ? '不限' : `${minutes} 分钟`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center mb-2">
+          <p className="font-bold text-gray-500 flex items-center gap-1"><Moon size={18} /> 休息时间</p>
+          <Switch on={!!rules.quietHours} onToggle={() => save({ quietHours: rules.quietHours ? null : DEFAULT_QUIET_HOURS })} />
+        </div>
+        {rules.quietHours && (
+          <div className="flex items-center gap-2 font-bold text-gray-500">
+            <input
+              type="time"
+              value={rules.quietHours.start}
+              onChange={(e) => e.target.value && save({ quietHours: { ...rules.quietHours!, start: e.target.value } })}
+              className="flex-1 border-2 border-indigo-100 rounded-xl px-3 py-2 outline-none focus:border-indigo-300"
+            />
+            到
+            <input
+              type="time"
+              value={rules.quietHours.end}
+              onChange={(e) => e.target.value && save({ quietHours: { ...rules.quietHours!, end: e.target.value } })}
+              className="flex-1 border-2 border-indigo-100 rounded-xl px-3 py-2 outline-none focus:border-indigo-300"
+            />
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={handleDeleteData}
+        className="w-full bg-red-50 text-red-500 py-2 rounded-xl font-bold flex items-center justify-center gap-2"
+      >
+        <Trash2 size={18} /> 删除{profile.name}的所有数据
+      </button>
+    </div>
+  );
+};
+
+// Device-wide, so one card for every child
+const PrivacyOptions: React.FC = () => {
+  const [settings, setSettings] = useState<PrivacySettings>(getPrivacySettings());
+  const faceDetection = canDetectFaces();
+
+  useEffect(() => onPrivacyChange(setSettings), []);
+
+  const toggle = (key: keyof PrivacySettings) => savePrivacySettings({ ...settings, [key]: !settings[key] });
+
+  const options: { key: keyof PrivacySettings; label: string; note?: string }[] = [
+    {
+      key: 'blurFaces',
+      label: '照片人脸打码',
+      note: faceDetection
+        ? '在本机完成，再发送给 Gemini'
+        : '此设备不支持人脸检测：开启时不发送照片，关闭后照片不打码直接发送',
+    },
+    { key: 'allowMic', label: '语音对话', note: '打开后，魔法画板和伴读会使用麦克风' },
+    { key: 'keepTranscripts', label: '保存对话记录' },
+    { key: 'keepPhotos', label: '保存照片', note: '关闭后单词本和绘本只保存文字' },
+  ];
+
+  return (
+    <div className="bg-white rounded-3xl shadow p-4 space-y-4">
+      <p className="font-black text-gray-600 flex items-center gap-1"><Lock size={18} /> 隐私</p>
+      {options.map(({ key, label, note }) => (
+        <div key={key} className="flex items-center gap-2">
+          <div>
+            <p className="font-bold text-gray-500">{label}</p>
+            {note && <p className="text-xs font-bold text-gray-400">{note}</p>}
+          </div>
+          <Switch on={settings[key]} onToggle={() => toggle(key)} />
+        </div>
+      ))}
+      <p className="text-xs font-bold text-gray-400 leading-relaxed">
+        拍的照片会发送给 Google Gemini 识别和画画。麦克风只在听到说话时才把声音发送出去，安静的时候声音不会离开这台设备。
+      </p>
+    </div>
+  );
+};
+
+const ParentalSettings: React.FC<ParentalSettingsProps> = ({ onClose }) => {
+  const { profiles } = useProfiles();
+  const [gate, setGate] = useState<'unlock' | 'changePin' | null>('unlock');
+  const [usedMinutes, setUsedMinutes] = useState<Record<string, number>>({});
+  const unlocked = gate !== 'unlock';
+
+  useEffect(() => {
+    if (!unlocked) return;
+    Promise.all(profiles.map(profile => usedTodayMs(profile.id)))
+      .then(used => setUsedMinutes(Object.fromEntries(profiles.map((profile, i) => [profile.id, Math.round(used[i] / 60_000)]))))
+      .catch(err => console.error("Loading screen time failed", err));
+  }, [unlocked, profiles]);
+
+  if (!unlocked) {
+    return <PinGate onPass={() => setGate(null)} onClose={onClose} />;
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-yellow-50 overflow-y-auto">
+      <div className="flex flex-col w-full max-w-md mx-auto p-4 pb-12 space-y-4">
+        <div className="flex items-center gap-2">
+          <button onClick={onClose} className="p-2 rounded-full bg-white shadow text-orange-500">
+            <ArrowLeft size={24} />
+          </button>
+          <h1 className="text-2xl font-black text-orange-500 flex items-center gap-2">
+            <Settings className="text-orange-400" /> 家长设置
+          </h1>
+        </div>
+
+        <p className="text-sm font-bold text-gray-400">
+          时间用完或到了休息时间，Gemi 会说晚安，直到第二天或休息时间结束。
+        </p>
+
+        {profiles.map(profile => (
+          <ProfileRules key={profile.id} profile={profile} usedMinutes={usedMinutes[profile.id]} />
+        ))}
+
+        <PrivacyOptions />
+
+        <button
+          onClick={() => setGate('changePin')}
+          className="w-full bg-white text-orange-500 py-3 rounded-2xl font-bold shadow flex items-center justify-center gap-2"
+        >
+          <KeyRound size={18} /> 修改家长密码
+        </button>
+      </div>
+
+      {gate === 'changePin' && (
+        <PinGate changing onPass={() => setGate(null)} onClose={() => setGate(null)} />
+      )}
+    </div>
+  );
+};
+
+export default ParentalSettings;
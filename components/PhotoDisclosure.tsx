@@ -0,0 +1,30 @@
+import React, { useState, useEffect } from 'react';
+import { getPrivacySettings, onPrivacyChange } from '../services/privacy';
+import { canDetectFaces } from '../services/imageUtils';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+
+// Tells parents where a photo goes before it's taken
+const PhotoDisclosure: React.FC = () => {
+  const [settings, setSettings] = useState(getPrivacySettings());
+
+  useEffect(() => onPrivacyChange(setSettings), []);
+
+  if (settings.blurFaces && !canDetectFaces()) {
+    return (
+      <p className="text-xs font-bold text-orange-400 flex items-center justify-center gap-1 text-center">
+        <ShieldAlert size={14} />
+        这台设备不能给人脸打码，家长在设置里允许后才能发送照片
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-xs font-bold text-gray-400 flex items-center justify-center gap-1 text-center">
+      <ShieldCheck size={14} className={settings.blurFaces ? 'text-green-500' : 'text-gray-400'} />
+      照片会发送给 Google Gemini 识别{settings.blurFaces ? '，人脸会先在本机打码' : ''}
+      {!settings.keepPhotos && '，不会保存在设备上'}
+    </p>
+  );
+};
+
+export default PhotoDisclosure;
@@ -1,13 +1,46 @@
-import React, { useState, useRef } from 'react';
-import { analyzeImageForKids, generateSpeech } from '../services/geminiService';
-import { FlashCardData } from '../types';
-import { Camera, Volume2, Upload, Sparkles, RefreshCw } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { useAiProvider } from '../services/AiProviderContext';
+import { useLanguages, useProfiles } from '../services/ProfileContext';
+import { AppTab, FlashCardData } from '../types';
+import { saveWord } from '../services/wordCollection';
+import { getDueReviews, trackWord } from '../services/spacedRepetition';
+import { createThumbnail } from '../services/imageUtils';
+import { getSpeech } from '../services/speechCache';
+import { audioPlayback } from '../services/audioPlayback';
+import { ContentBlockedError, logSafetyEvent, screenFlashCard } from '../services/safety';
+import { PhotoNotAllowedError, canSendPhotos, getPrivacySettings, onPrivacyChange, preparePhoto } from '../services/privacy';
+import WordCollection from './WordCollection';
+import ReviewSession from './ReviewSession';
+import SayItBack from './SayItBack';
+import SafetyFallback from './SafetyFallback';
+import PhotoDisclosure from './PhotoDisclosure';
+import { LANGUAGES } from '../languages';
+import { Camera, Volume2, Upload, Sparkles, RefreshCw, BookHeart, Repeat, Mic } from 'lucide-react';
 
 const PhotoTab: React.FC = () => {
   const [image, setImage] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<FlashCardData | null>(null);
+  const [showCollection, setShowCollection] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [showPractice, setShowPractice] = useState(false);
+  const [dueCount, setDueCount] = useState(0);
+  const [heldBack, setHeldBack] = useState(false);
+  // Say-it-back needs the mic, which stays off until a parent allows it
+  const [micAllowed, setMicAllowed] = useState(getPrivacySettings().allowMic);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const ai = useAiProvider();
+  const { languages } = useLanguages();
+  const { activeProfile } = useProfiles();
+
+  useEffect(() => onPrivacyChange(settings => setMicAllowed(settings.allowMic)), []);
+
+  useEffect(() => {
+    if (showReview) return;
+    getDueReviews(activeProfile.id)
+      .then(items => setDueCount(items.length))
+      .catch(err => console.error("Loading reviews failed", err));
+  }, [activeProfile.id, showReview]);
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -18,17 +51,45 @@ const PhotoTab: React.FC = () => {
 
     const reader = new FileReader();
     reader.onloadend = async () => {
-      const base64 = reader.result as string;
-      setImage(base64);
-      // Strip prefix for API
-      const base64Data = base64.split(',')[1];
-      
       try {
-        const data = await analyzeImageForKids(base64Data);
+        // Faces are blurred before the photo is shown, sent or kept
+        const base64 = await preparePhoto(reader.result as string);
+        setImage(base64);
+        // Strip prefix for API
+        const base64Data = base64.split(',')[1];
+
+        const data = await ai.analyzeImageForKids(base64Data, languages, activeProfile.age);
+        const terms = screenFlashCard(data);
+        if (terms.length) {
+          logSafetyEvent(activeProfile.id, AppTab.PHOTO, 'filtered', terms, `${data.targetWord} / ${data.nativeWord}: ${data.simpleSentence}`)
+            .catch(err => console.error("Logging safety event failed", err));
+          setImage(null);
+          setHeldBack(true);
+          return;
+        }
         setResult(data);
+        // Keep the card in the child's word collection and schedule it for
+        // review; the photo goes with it only if parents allow
+        (getPrivacySettings().keepPhotos ? createThumbnail(base64) : Promise.resolve(undefined))
+          .then(thumbnail => Promise.all([
+            saveWord(activeProfile.id, data, thumbnail),
+            trackWord(activeProfile.id, data, 'photo', thumbnail),
+          ]))
+          .catch(err => console.error("Saving word failed", err));
         // Auto play audio on result if possible, or prep it
         playAudio(data.targetWord);
       } catch (err) {
+        if (err instanceof ContentBlockedError) {
+          logSafetyEvent(activeProfile.id, AppTab.PHOTO, 'blocked', [])
+            .catch(e => console.error("Logging safety event failed", e));
+          setImage(null);
+          setHeldBack(true);
+          return;
+        }
+        if (err instanceof PhotoNotAllowedError) {
+          alert("Oops! Ask a grown-up to allow photos in parent settings first.");
+          return;
+        }
         alert("Oops! Can't see clearly. Try another photo!");
       } finally {
         setLoading(false);
@@ -38,23 +99,29 @@ const PhotoTab: React.FC = () => {
   };
 
   const playAudio = async (text: string) => {
-    const buffer = await generateSpeech(text);
-    if (buffer) {
-      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(ctx.destination);
-      source.start(0);
-    }
+    const buffer = await getSpeech(ai, text, languages.target);
+    if (buffer) audioPlayback.play(buffer);
   };
 
   const triggerCamera = () => {
+    if (!canSendPhotos()) {
+      alert("Oops! Ask a grown-up to allow photos in parent settings first.");
+      return;
+    }
     fileInputRef.current?.click();
   };
 
+  if (showCollection) {
+    return <WordCollection onClose={() => setShowCollection(false)} />;
+  }
+
+  if (showReview) {
+    return <ReviewSession onClose={() => setShowReview(false)} />;
+  }
+
   return (
     <div className="flex flex-col items-center p-4 space-y-6 w-full max-w-md mx-auto h-full overflow-y-auto pb-24">
-      <h1 className="text-3xl font-black text-orange-500 drop-shadow-sm">拍照学英语</h1>
+      <h1 className="text-3xl font-black text-orange-500 drop-shadow-sm">拍照学{LANGUAGES[languages.target].label}</h1>
       
       {/* Main Card Area */}
       <div className="w-full bg-white rounded-3xl shadow-xl overflow-hidden border-4 border-yellow-400 relative min-h-[300px] flex flex-col items-center justify-center">
@@ -95,16 +162,34 @@ const PhotoTab: React.FC = () => {
               <p className="text-lg text-orange-800 font-bold leading-tight">"{result.simpleSentence}"</p>
             </div>
 
-            <button 
-              onClick={() => playAudio(result.targetWord + ". " + result.simpleSentence)}
-              className="bg-green-400 hover:bg-green-500 text-white p-4 rounded-full shadow-lg transition-transform active:scale-90"
-            >
-              <Volume2 size={32} fill="currentColor" />
-            </button>
+            <div className="flex justify-center gap-4">
+              <button 
+                onClick={() => playAudio(result.targetWord + ". " + result.simpleSentence)}
+                className="bg-green-400 hover:bg-green-500 text-white p-4 rounded-full shadow-lg transition-transform active:scale-90"
+              >
+                <Volume2 size={32} fill="currentColor" />
+              </button>
+              {micAllowed && (
+                <button 
+                  onClick={() => setShowPractice(true)}
+                  className="bg-pink-400 hover:bg-pink-500 text-white p-4 rounded-full shadow-lg transition-transform active:scale-90"
+                >
+                  <Mic size={32} />
+                </button>
+              )}
+            </div>
           </div>
         )}
       </div>
 
+      {showPractice && result && (
+        <SayItBack card={result} source="photo" onClose={() => setShowPractice(false)} />
+      )}
+
+      {heldBack && (
+        <SafetyFallback message="这个 Gemi 不会教哦，我们拍点别的东西吧！" onClose={() => setHeldBack(false)} />
+      )}
+
       {/* Controls */}
       <div className="flex gap-4 w-full justify-center">
         <input 
@@ -122,7 +207,26 @@ const PhotoTab: React.FC = () => {
         >
           <Camera /> 拍照片
         </button>
+
+        <button 
+          onClick={() => setShowCollection(true)}
+          className="bg-yellow-400 hover:bg-yellow-500 text-white rounded-2xl p-4 font-bold text-xl shadow-lg flex items-center justify-center gap-2 transition-all active:translate-y-1"
+        >
+          <BookHeart /> 单词本
+        </button>
       </div>
+
+      <PhotoDisclosure />
+
+      <button 
+        onClick={() => setShowReview(true)}
+        className="w-full bg-green-500 hover:bg-green-600 text-white rounded-2xl p-4 font-bold text-xl shadow-lg flex items-center justify-center gap-2 transition-all active:translate-y-1"
+      >
+        <Repeat /> 今日复习
+        {dueCount > 0 && (
+          <span className="bg-white text-green-600 rounded-full px-2 text-base">{dueCount}</span>
+        )}
+      </button>
     </div>
   );
 };
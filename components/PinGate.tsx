@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { useLockoutSeconds, useParentalControls } from '../services/ParentalControlsContext';
+import PinRecovery from './PinRecovery';
+import { X, Lock, Delete } from 'lucide-react';
+
+interface PinGateProps {
+  onPass: () => void;
+  onClose: () => void;
+  // Choose a new PIN instead of entering the current one
+  changing?: boolean;
+}
+
+const PIN_LENGTH = 4;
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'delete'];
+
+type Step = 'enter' | 'create' | 'confirm' | 'forgot';
+
+const TITLES: Record<Exclude<Step, 'forgot'>, string> = {
+  enter: '输入家长密码',
+  create: '设置家长密码',
+  confirm: '再输入一次',
+};
+
+const PinGate: React.FC<PinGateProps> = ({ onPass, onClose, changing = false }) => {
+  const { hasPin, setPin, checkPin, recordFailure, clearFailures } = useParentalControls();
+  const lockoutSeconds = useLockoutSeconds();
+  const [step, setStep] = useState<Step>(hasPin && !changing ? 'enter' : 'create');
+  const [digits, setDigits] = useState('');
+  const [created, setCreated] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const locked = step === 'enter' && lockoutSeconds > 0;
+
+  const submit = async (pin: string) => {
+    setDigits('');
+    if (step === 'enter') {
+      if (await checkPin(pin)) {
+        clearFailures();
+        onPass();
+      } else {
+        recordFailure();
+        setError('密码不对哦');
+      }
+    } else if (step === 'create') {
+      setCreated(pin);
+      setStep('confirm');
+    } else if (pin === created) {
+      await setPin(pin);
+      onPass();
+    } else {
+      setError('两次输入的不一样，请重新设置');
+      setStep('create');
+    }
+  };
+
+  const press = (key: string) => {
+    if (locked) return;
+    setError(null);
+    if (key === 'delete') {
+      setDigits(digits.slice(0, -1));
+      return;
+    }
+    const next = digits + key;
+    setDigits(next);
+    if (next.length === PIN_LENGTH) {
+      submit(next).catch(err => {
+        console.error("Checking PIN failed", err);
+        setError('出错了，请再试一次');
+      });
+    }
+  };
+
+  // A forgotten PIN can be replaced after a harder grown-up question
+  if (step === 'forgot') {
+    return <PinRecovery onPass={() => setStep('create')} onClose={onClose} />;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm p-6 space-y-5 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400">
+          <X size={24} />
+        </button>
+
+        <h2 className="text-2xl font-black text-orange-500 text-center flex items-center justify-center gap-2">
+          <Lock size={22} /> {TITLES[step]}
+        </h2>
+
+        <div className="flex justify-center gap-4">
+          {Array.from({ length: PIN_LENGTH }, (_, i) => (
+            <span key={i} className={`w-4 h-4 rounded-full ${i < digits.length ? 'bg-orange-500' : 'bg-gray-200'}`} />
+          ))}
+        </div>
+        {locked ? (
+          <p className="text-center text-red-400 font-bold">错误次数太多，请 {lockoutSeconds} 秒后再试</p>
+        ) : error && (
+          <p className="text-center text-red-400 font-bold">{error}</p>
+        )}
+
+        <div className="grid grid-cols-3 gap-3">
+          {KEYS.map((key, i) => key ? (
+            <button
+              key={key}
+              onClick={() => press(key)}
+              disabled={locked}
+              className="h-14 rounded-2xl bg-gray-100 text-2xl font-black text-gray-600 flex items-center justify-center active:bg-gray-200 disabled:opacity-50"
+            >
+              {key === 'delete' ? <Delete size={24} /> : key}
+            </button>
+          ) : <span key={i} />)}
+        </div>
+
+        {step === 'enter' && (
+          <button onClick={() => setStep('forgot')} className="w-full text-sm font-bold text-gray-400">
+            忘记密码？
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PinGate;
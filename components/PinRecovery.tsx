@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { useLockoutSeconds, useParentalControls } from '../services/ParentalControlsContext';
+import { X, KeyRound } from 'lucide-react';
+
+interface PinRecoveryProps {
+  onPass: () => void;
+  onClose: () => void;
+}
+
+const DIGITS = ['', '一', '二', '三', '四', '五', '六', '七', '八', '九'];
+
+// 10-99 in Chinese words, e.g. 47 -> 四十七
+const inWords = (n: number) => `${n >= 20 ? DIGITS[Math.floor(n / 10)] : ''}十${DIGITS[n % 10]}`;
+
+// Replacing a forgotten PIN undoes every limit, so this asks more than
+// ParentGate: a two-digit product written out in words, which needs both
+// reading and long multiplication. Misses count towards the PIN lockout.
+const newQuestion = () => {
+  const a = 13 + Math.floor(Math.random() * 37);
+  const b = 13 + Math.floor(Math.random() * 37);
+  return { a, b, answer: a * b };
+};
+
+const PinRecovery: React.FC<PinRecoveryProps> = ({ onPass, onClose }) => {
+  const { recordFailure, clearFailures } = useParentalControls();
+  const lockoutSeconds = useLockoutSeconds();
+  const [question, setQuestion] = useState(newQuestion);
+  const [input, setInput] = useState('');
+  const [wrong, setWrong] = useState(false);
+
+  const check = () => {
+    if (lockoutSeconds > 0) return;
+    if (Number(input) === question.answer) {
+      clearFailures();
+      onPass();
+      return;
+    }
+    recordFailure();
+    setWrong(true);
+    setInput('');
+    setQuestion(newQuestion());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm p-6 space-y-5 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400">
+          <X size={24} />
+        </button>
+
+        <h2 className="text-2xl font-black text-orange-500 text-center flex items-center justify-center gap-2">
+          <KeyRound size={22} /> 重设家长密码
+        </h2>
+
+        <p className="text-2xl font-black text-gray-700 text-center">
+          {inWords(question.a)}乘以{inWords(question.b)}等于多少？
+        </p>
+
+        <input
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value.replace(/\D/g, ''));
+            setWrong(false);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && check()}
+          inputMode="numeric"
+          autoFocus
+          disabled={lockoutSeconds > 0}
+          className="w-full border-2 border-yellow-200 rounded-2xl px-4 py-3 text-2xl text-center font-bold text-gray-700 outline-none focus:border-yellow-400 disabled:opacity-50"
+        />
+        {lockoutSeconds > 0 ? (
+          <p className="text-center text-red-400 font-bold">错误次数太多，请 {lockoutSeconds} 秒后再试</p>
+        ) : wrong && (
+          <p className="text-center text-red-400 font-bold">不对哦，换一题再试试</p>
+        )}
+
+        <button
+          onClick={check}
+          disabled={!input || lockoutSeconds > 0}
+          className="w-full bg-orange-500 text-white py-3 rounded-2xl font-black text-lg shadow disabled:opacity-50"
+        >
+          下一步
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PinRecovery;
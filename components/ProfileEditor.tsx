@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ChildProfile } from '../types';
+import { PROFILE_AVATARS } from '../services/ProfileContext';
+import { LANGUAGES, TARGET_LANGUAGES } from '../languages';
+import { MAX_CHILD_AGE, MIN_CHILD_AGE } from '../difficulty';
+import { X, Trash2 } from 'lucide-react';
+
+interface ProfileEditorProps {
+  profile: ChildProfile;
+  canDelete: boolean;
+  onSave: (profile: ChildProfile) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const AGES = Array.from({ length: MAX_CHILD_AGE - MIN_CHILD_AGE + 1 }, (_, i) => MIN_CHILD_AGE + i);
+
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, canDelete, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<ChildProfile>(profile);
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm p-6 space-y-5 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400">
+          <X size={24} />
+        </button>
+
+        <h2 className="text-2xl font-black text-orange-500 text-center">宝贝资料</h2>
+
+        {/* Avatar */}
+        <div className="flex flex-wrap justify-center gap-2">
+          {PROFILE_AVATARS.map(avatar => (
+            <button
+              key={avatar}
+              onClick={() => setDraft({ ...draft, avatar })}
+              className={`text-3xl w-12 h-12 rounded-full ${draft.avatar === avatar ? 'bg-yellow-200 ring-4 ring-yellow-400' : 'bg-gray-50'}`}
+            >
+              {avatar}
+            </button>
+          ))}
+        </div>
+
+        {/* Name */}
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="名字"
+          maxLength={12}
+          className="w-full border-2 border-yellow-200 rounded-2xl px-4 py-3 text-lg font-bold text-gray-700 outline-none focus:border-yellow-400"
+        />
+
+        {/* Age */}
+        <div>
+          <p className="font-bold text-gray-500 mb-2">年龄</p>
+          <div className="flex justify-between gap-1">
+            {AGES.map(age => (
+              <button
+                key={age}
+                onClick={() => setDraft({ ...draft, age })}
+                className={`flex-1 py-2 rounded-xl font-black ${draft.age === age ? 'bg-orange-500 text-white' : 'bg-gray-100 text-gray-500'}`}
+              >
+                {age}岁
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Target language */}
+        <div>
+          <p className="font-bold text-gray-500 mb-2">学习语言</p>
+          <div className="grid grid-cols-2 gap-2">
+            {TARGET_LANGUAGES.map(code => (
+              <button
+                key={code}
+                onClick={() => setDraft({ ...draft, targetLanguage: code })}
+                className={`flex items-center justify-center gap-2 py-2 rounded-xl font-bold
+                  ${draft.targetLanguage === code ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-500'}`}
+              >
+                <span className="text-xl">{LANGUAGES[code].flag}</span> {LANGUAGES[code].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {canDelete && (
+            <button
+              onClick={onDelete}
+              className="p-4 rounded-2xl bg-red-50 text-red-500"
+            >
+              <Trash2 size={20} />
+            </button>
+          )}
+          <button
+            onClick={() => onSave(draft)}
+            className="flex-1 bg-orange-500 text-white rounded-2xl p-4 font-bold text-xl shadow-lg active:translate-y-1"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileEditor;
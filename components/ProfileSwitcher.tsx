@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { ChildProfile } from '../types';
+import { PROFILE_AVATARS, useProfiles } from '../services/ProfileContext';
+import { useParentalControls } from '../services/ParentalControlsContext';
+import { LANGUAGES, DEFAULT_LANGUAGE_PAIR } from '../languages';
+import ProfileEditor from './ProfileEditor';
+import ParentGate from './ParentGate';
+import PinGate from './PinGate';
+import ParentDashboard from './ParentDashboard';
+import ParentalSettings from './ParentalSettings';
+import { Plus, Pencil, BarChart3, Settings } from 'lucide-react';
+
+const ProfileSwitcher: React.FC = () => {
+  const { profiles, activeProfile, setActiveProfile, saveProfile, deleteProfile } = useProfiles();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<ChildProfile | null>(null);
+  const [parentView, setParentView] = useState<'gate' | 'dashboard' | 'settings' | null>(null);
+  const { hasPin } = useParentalControls();
+  // Waiting for the parent PIN before it runs
+  const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
+
+  // Screen-time limits are per child, so once a PIN guards them, adding,
+  // editing or switching children needs it too
+  const asParent = (action: () => void) => {
+    setIsOpen(false);
+    if (hasPin) setPendingAction(() => action);
+    else action();
+  };
+
+  const startNewProfile = () => asParent(() => setEditing({
+    id: crypto.randomUUID(),
+    name: '',
+    avatar: PROFILE_AVATARS[profiles.length % PROFILE_AVATARS.length],
+    age: 3,
+    targetLanguage: DEFAULT_LANGUAGE_PAIR.target,
+  }));
+
+  return (
+    <div className="absolute top-3 right-3 z-50">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-white/90 rounded-full shadow-md pl-1 pr-3 py-1 flex items-center gap-1 font-bold text-sm text-gray-600"
+      >
+        <span className="text-2xl">{activeProfile.avatar}</span>
+        {activeProfile.name}
+        <span className="text-base">{LANGUAGES[activeProfile.targetLanguage].flag}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 bg-white rounded-2xl shadow-xl p-2 flex flex-col gap-1 min-w-[180px]">
+          {profiles.map(profile => (
+            <div
+              key={profile.id}
+              className={`flex items-center rounded-xl ${profile.id === activeProfile.id ? 'bg-yellow-100' : 'hover:bg-gray-50'}`}
+            >
+              <button
+                onClick={() => {
+                  if (profile.id === activeProfile.id) setIsOpen(false);
+                  else asParent(() => setActiveProfile(profile.id));
+                }}
+                className="flex-1 flex items-center gap-2 px-3 py-2 font-bold text-gray-600 text-left"
+              >
+                <span className="text-2xl">{profile.avatar}</span>
+                <span>
+                  {profile.name}
+                  <span className="block text-xs text-gray-400">{profile.age}岁 · {LANGUAGES[profile.targetLanguage].label}</span>
+                </span>
+              </button>
+              <button
+                onClick={() => asParent(() => setEditing(profile))}
+                className="p-2 text-gray-300 hover:text-gray-500"
+              >
+                <Pencil size={16} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={startNewProfile}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl font-bold text-blue-500 hover:bg-blue-50"
+          >
+            <Plus size={20} /> 添加宝贝
+          </button>
+          <button
+            onClick={() => {
+              setParentView('gate');
+              setIsOpen(false);
+            }}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl font-bold text-orange-500 hover:bg-orange-50 border-t border-gray-100"
+          >
+            <BarChart3 size={20} /> 学习报告
+          </button>
+          <button
+            onClick={() => {
+              setParentView('settings');
+              setIsOpen(false);
+            }}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl font-bold text-orange-500 hover:bg-orange-50"
+          >
+            <Settings size={20} /> 家长设置
+          </button>
+        </div>
+      )}
+
+      {editing && (
+        <ProfileEditor
+          profile={editing}
+          canDelete={profiles.length > 1 && profiles.some(p => p.id === editing.id)}
+          onSave={(profile) => {
+            saveProfile(profile);
+            setEditing(null);
+          }}
+          onDelete={() => {
+            deleteProfile(editing.id);
+            setEditing(null);
+          }}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {pendingAction && (
+        <PinGate
+          onPass={() => {
+            pendingAction();
+            setPendingAction(null);
+          }}
+          onClose={() => setPendingAction(null)}
+        />
+      )}
+
+      {parentView === 'gate' && (
+        <ParentGate onPass={() => setParentView('dashboard')} onClose={() => setParentView(null)} />
+      )}
+      {parentView === 'dashboard' && <ParentDashboard onClose={() => setParentView(null)} />}
+      {parentView === 'settings' && <ParentalSettings onClose={() => setParentView(null)} />}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
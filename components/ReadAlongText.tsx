@@ -0,0 +1,93 @@
+import React from 'react';
+import { VocabularyWord } from '../types';
+import { ReadAlongPosition } from '../services/readAlong';
+
+interface ReadAlongSentence {
+  words: string[];
+  // False for scripts written without spaces between words
+  spaced: boolean;
+  translation: string;
+  vocabulary?: VocabularyWord[];
+}
+
+interface ReadAlongTextProps {
+  sentences: ReadAlongSentence[];
+  position: ReadAlongPosition | null;
+  // Sentence the reader is on when nothing is playing
+  cursor: number;
+  // Puts each sentence on its own line with its translation and key words
+  showTranslation: boolean;
+  onWordTap: (word: string) => void;
+}
+
+// Story text with the sentence being read tinted and the spoken word lit up
+const ReadAlongText: React.FC<ReadAlongTextProps> = ({ sentences, position, cursor, showTranslation, onWordTap }) => {
+  const activeSentence = position ? position.sentence : cursor;
+
+  const renderWords = ({ words, spaced }: ReadAlongSentence, s: number) =>
+    words.map((word, w) => {
+      const isSpoken = position?.sentence === s && position.word === w;
+      return (
+        <React.Fragment key={w}>
+          <span
+            onClick={() => onWordTap(word)}
+            className={`cursor-pointer rounded px-0.5 transition-colors ${isSpoken ? 'bg-yellow-300 text-rose-700' : 'hover:bg-rose-200'}`}
+          >
+            {word}
+          </span>
+          {spaced && ' '}
+        </React.Fragment>
+      );
+    });
+
+  if (!showTranslation) {
+    return (
+      <p className="text-lg text-rose-900 font-bold leading-relaxed font-['Nunito']">
+        {sentences.map((sentence, s) => (
+          <span
+            key={s}
+            className={`rounded-lg transition-colors ${s === activeSentence ? 'bg-rose-100' : ''}`}
+          >
+            {renderWords(sentence, s)}
+          </span>
+        ))}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {sentences.map((sentence, s) => {
+        const readingTranslation = position?.sentence === s && position.translation;
+        return (
+          <div
+            key={s}
+            className={`rounded-xl p-2 transition-colors ${s === activeSentence ? 'bg-rose-100' : ''}`}
+          >
+            <p className="text-lg text-rose-900 font-bold leading-relaxed font-['Nunito']">
+              {renderWords(sentence, s)}
+            </p>
+            <p className={`text-base font-bold rounded px-0.5 transition-colors ${readingTranslation ? 'bg-yellow-300 text-rose-700' : 'text-gray-500'}`}>
+              {sentence.translation}
+            </p>
+            {sentence.vocabulary && sentence.vocabulary.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-1">
+                {sentence.vocabulary.map(word => (
+                  <button
+                    key={word.targetWord}
+                    onClick={() => onWordTap(word.targetWord)}
+                    className="bg-white border-2 border-rose-200 rounded-full px-3 py-0.5 text-sm font-bold text-rose-600 active:scale-95"
+                  >
+                    {word.emoji} {word.targetWord} · {word.nativeWord}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ReadAlongText;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { ReviewItem } from '../types';
+import { useAiProvider } from '../services/AiProviderContext';
+import { useProfiles } from '../services/ProfileContext';
+import { getDueReviews, getRetentionStats, recordReview, RetentionStats } from '../services/spacedRepetition';
+import { getSpeech } from '../services/speechCache';
+import { audioPlayback } from '../services/audioPlayback';
+import { LANGUAGES } from '../languages';
+import { ArrowLeft, Volume2, Repeat, Loader2 } from 'lucide-react';
+
+interface ReviewSessionProps {
+  onClose: () => void;
+}
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ onClose }) => {
+  const ai = useAiProvider();
+  const { activeProfile } = useProfiles();
+  const [queue, setQueue] = useState<ReviewItem[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [stats, setStats] = useState<RetentionStats | null>(null);
+
+  useEffect(() => {
+    getDueReviews(activeProfile.id).then(setQueue).catch(err => {
+      console.error("Loading reviews failed", err);
+      setQueue([]);
+    });
+  }, [activeProfile.id]);
+
+  const isFinished = queue !== null && index >= queue.length;
+
+  // Refresh the parent-facing numbers once the session is over
+  useEffect(() => {
+    if (isFinished) getRetentionStats(activeProfile.id).then(setStats).catch(console.error);
+  }, [isFinished, activeProfile.id]);
+
+  const playWord = async (item: ReviewItem) => {
+    const buffer = await getSpeech(ai, item.card.targetWord, item.card.targetLanguage);
+    if (buffer) audioPlayback.play(buffer);
+  };
+
+  const reveal = (item: ReviewItem) => {
+    setRevealed(true);
+    playWord(item);
+  };
+
+  const answer = async (item: ReviewItem, correct: boolean) => {
+    await recordReview(item, correct).catch(err => console.error("Saving review failed", err));
+    if (correct) setCorrectCount(c => c + 1);
+    setRevealed(false);
+    setIndex(i => i + 1);
+  };
+
+  const current = queue && !isFinished ? queue[index] : null;
+
+  return (
+    <div className="flex flex-col w-full max-w-md mx-auto h-full overflow-y-auto p-4 pb-24">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onClose} className="p-2 rounded-full bg-white shadow text-green-600">
+          <ArrowLeft size={24} />
+        </button>
+        <h1 className="text-2xl font-black text-green-600 flex items-center gap-2">
+          <Repeat className="text-green-500" /> 今日复习
+        </h1>
+        {queue && queue.length > 0 && !isFinished && (
+          <span className="ml-auto text-sm font-bold text-gray-400">{index + 1} / {queue.length}</span>
+        )}
+      </div>
+
+      {queue === null && (
+        <div className="flex justify-center mt-16">
+          <Loader2 size={48} className="animate-spin text-green-400" />
+        </div>
+      )}
+
+      {current && (
+        <div className="bg-white rounded-3xl shadow-xl overflow-hidden border-4 border-green-300 text-center">
+          {current.thumbnail ? (
+            <img src={current.thumbnail} alt="" className="w-full h-56 object-cover" />
+          ) : (
+            <div className="h-56 flex items-center justify-center bg-green-50 text-8xl">{current.card.emoji}</div>
+          )}
+          <div className="p-6">
+            <h3 className="text-3xl font-bold text-orange-500 mb-2">{current.card.nativeWord || current.card.emoji}</h3>
+            {!revealed ? (
+              <>
+                <p className="text-gray-500 font-bold mb-6">用{LANGUAGES[current.card.targetLanguage].label}怎么说？</p>
+                <button
+                  onClick={() => reveal(current)}
+                  className="w-full bg-green-500 text-white p-4 rounded-2xl font-bold text-xl shadow-lg flex items-center justify-center gap-2 active:translate-y-1"
+                >
+                  <Volume2 /> 听答案
+                </button>
+              </>
+            ) : (
+              <>
+                <h2 className="text-4xl font-black text-blue-600 mb-1">{current.card.targetWord}</h2>
+                {current.card.pronunciation && (
+                  <p className="text-gray-400 text-lg italic mb-4">/{current.card.pronunciation}/</p>
+                )}
+                <button onClick={() => playWord(current)} className="text-green-500 mb-4">
+                  <Volume2 size={32} />
+                </button>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => answer(current, false)}
+                    className="flex-1 bg-orange-100 text-orange-600 p-4 rounded-2xl font-bold text-lg"
+                  >
+                    🤔 再学学
+                  </button>
+                  <button
+                    onClick={() => answer(current, true)}
+                    className="flex-1 bg-green-500 text-white p-4 rounded-2xl font-bold text-lg shadow-lg"
+                  >
+                    😀 会了
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {isFinished && (
+        <div className="text-center mt-8 space-y-4">
+          <p className="text-6xl">{queue.length === 0 ? '🌟' : '🎉'}</p>
+          <p className="text-2xl font-black text-green-600">
+            {queue.length === 0 ? '今天没有要复习的单词啦！' : `太棒了！答对 ${correctCount} / ${queue.length}`}
+          </p>
+
+          {/* Retention numbers for the parent */}
+          {stats && (
+            <div className="bg-white rounded-2xl shadow p-4 grid grid-cols-3 gap-2 text-gray-600">
+              <div>
+                <p className="text-2xl font-black text-blue-600">{stats.totalWords}</p>
+                <p className="text-xs font-bold">学过的单词</p>
+              </div>
+              <div>
+                <p className="text-2xl font-black text-green-600">{stats.masteredWords}</p>
+                <p className="text-xs font-bold">已掌握</p>
+              </div>
+              <div>
+                <p className="text-2xl font-black text-orange-500">
+                  {stats.accuracyLast30Days === null ? '-' : `${Math.round(stats.accuracyLast30Days * 100)}%`}
+                </p>
+                <p className="text-xs font-bold">30天正确率</p>
+              </div>
+            </div>
+          )}
+
+          <button onClick={onClose} className="bg-green-500 text-white px-8 py-3 rounded-2xl font-bold text-lg shadow-lg">
+            完成
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewSession;
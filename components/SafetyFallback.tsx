@@ -0,0 +1,41 @@
+import React, { useEffect } from 'react';
+import { useAiProvider } from '../services/AiProviderContext';
+import { useLanguages } from '../services/ProfileContext';
+import { getSpeech } from '../services/speechCache';
+import { audioPlayback } from '../services/audioPlayback';
+
+interface SafetyFallbackProps {
+  // Said in the parent's language, so even the littlest ones follow
+  message: string;
+  onClose: () => void;
+}
+
+// Shown instead of anything the safety checks held back; it never says
+// what was caught, only that there's something better to do
+const SafetyFallback: React.FC<SafetyFallbackProps> = ({ message, onClose }) => {
+  const ai = useAiProvider();
+  const { languages } = useLanguages();
+
+  useEffect(() => {
+    getSpeech(ai, message, languages.native)
+      .then(buffer => buffer && audioPlayback.play(buffer))
+      .catch(err => console.error("Fallback speech failed", err));
+  }, [ai, message, languages.native]);
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm p-6 space-y-5 text-center">
+        <p className="text-7xl">🙈</p>
+        <p className="text-xl font-black text-orange-500">{message}</p>
+        <button
+          onClick={onClose}
+          className="w-full bg-orange-500 text-white py-3 rounded-2xl font-black text-lg shadow"
+        >
+          好的！
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SafetyFallback;
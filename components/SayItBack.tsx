@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { useAiProvider } from '../services/AiProviderContext';
+import { useProfiles } from '../services/ProfileContext';
+import { FlashCardData, WordSource } from '../types';
+import { recordAttempt, scorePronunciation, PronunciationScore } from '../services/pronunciation';
+import { getPrivacySettings, onPrivacyChange } from '../services/privacy';
+import { sensitivityForAge } from '../services/voiceActivity';
+import { LANGUAGES } from '../languages';
+import StarRating from './StarRating';
+import MicNotice from './MicNotice';
+import { X, Mic, Loader2 } from 'lucide-react';
+
+interface SayItBackProps {
+  card: FlashCardData;
+  source: WordSource;
+  onClose: () => void;
+}
+
+type CoachState = 'connecting' | 'listening' | 'speaking' | 'error';
+
+// "Say it back": a short live session where Gemi asks the child to repeat
+// one word and every try is scored from the transcription.
+const SayItBack: React.FC<SayItBackProps> = ({ card, source, onClose }) => {
+  const ai = useAiProvider();
+  const { activeProfile } = useProfiles();
+  const [state, setState] = useState<CoachState>('connecting');
+  const [heard, setHeard] = useState('');
+  const [lastScore, setLastScore] = useState<PronunciationScore | null>(null);
+  const [attempts, setAttempts] = useState(0);
+  const [micAllowed, setMicAllowed] = useState(getPrivacySettings().allowMic);
+
+  useEffect(() => onPrivacyChange(settings => setMicAllowed(settings.allowMic)), []);
+
+  useEffect(() => {
+    // Nothing connects, or asks for the mic, until a parent allows voice chat
+    if (!micAllowed) return;
+    const target = LANGUAGES[card.targetLanguage];
+
+    const session = ai.createLiveSession(
+      (speaking) => setState(speaking ? 'speaking' : 'listening'),
+      (err) => {
+        console.error(err);
+        setState('error');
+      },
+      (userText, _aiText, isFinal) => {
+        const attempt = userText.trim();
+        if (attempt) setHeard(attempt);
+        // Transcription arrives in pieces; only the finished turn is scored
+        if (!isFinal || !attempt) return;
+
+        const score = scorePronunciation(attempt, card);
+        setLastScore(score);
+        setAttempts(n => n + 1);
+        recordAttempt(activeProfile.id, card, attempt, score, source)
+          .catch(err => console.error("Saving attempt failed", err));
+      }
+    );
+
+    const coachPrompt = `
+      你是小朋友的发音小老师 Gemi，正在帮${activeProfile.age}岁的${activeProfile.name}练习一个${target.label}单词。
+      单词是 "${card.targetWord}"（${card.nativeWord}）。
+      1. 先用中文说“跟我读！”，然后慢慢、清楚地说两遍 "${card.targetWord}"。
+      2. 等小朋友跟着说。
+      3. 每次小朋友说完，都用一句中文热情地鼓励，再示范一遍这个词。不要批评，不要讲别的话题。
+    `;
+
+    session.connect({
+      systemInstruction: coachPrompt,
+      vadSensitivity: sensitivityForAge(activeProfile.age),
+      onConnectionStateChange: (connection) => setState(connection === 'reconnecting' ? 'connecting' : 'listening'),
+    }).then(() => {
+      setState('listening');
+      session.setListening(true);
+      session.sendText("System: Start the practice now.");
+    }).catch(err => {
+      console.error("Practice session failed", err);
+      setState('error');
+    });
+
+    return () => session.disconnect();
+  }, [ai, card, source, activeProfile.id, activeProfile.age, activeProfile.name, micAllowed]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm p-6 text-center relative border-4 border-pink-300">
+        <button onClick={onClose} className="absolute top-3 right-3 text-gray-400">
+          <X size={28} />
+        </button>
+
+        <span className="text-6xl">{card.emoji}</span>
+        <h2 className="text-4xl font-black text-blue-600 mt-2">{card.targetWord}</h2>
+        {card.pronunciation && (
+          <p className="text-gray-400 text-lg italic">/{card.pronunciation}/</p>
+        )}
+
+        <div className="my-6 min-h-[120px] flex flex-col items-center justify-center">
+          {!micAllowed ? (
+            <MicNotice />
+          ) : lastScore ? (
+            <StarRating stars={lastScore.stars} heard={heard} />
+          ) : state === 'connecting' ? (
+            <Loader2 size={48} className="animate-spin text-pink-400" />
+          ) : state === 'error' ? (
+            <p className="text-gray-500 font-bold">连接不上，等一下再试试吧</p>
+          ) : (
+            <>
+              <div className={`p-5 rounded-full ${state === 'listening' ? 'bg-pink-500 animate-pulse' : 'bg-pink-200'}`}>
+                <Mic size={40} className="text-white" />
+              </div>
+              <p className="text-pink-500 font-bold mt-3">
+                {state === 'speaking' ? '仔细听哦...' : '跟我读！'}
+              </p>
+            </>
+          )}
+        </div>
+
+        {attempts > 0 && (
+          <p className="text-sm font-bold text-gray-400">已经练习了 {attempts} 次</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SayItBack;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { TranscriptSession } from '../types';
+import { useProfiles } from '../services/ProfileContext';
+import { SPEAKER_LABELS, TAB_LABELS, deleteSession, exportSessions, formatTime, listSessions, searchSessions } from '../services/transcripts';
+import { ArrowLeft, ScrollText, Search, FileText, FileJson, Trash2 } from 'lucide-react';
+
+interface SessionLogProps {
+  // The session still going on, which may be newer than what's stored
+  current: TranscriptSession | null;
+  onClose: () => void;
+}
+
+// Marks every occurrence of the search term
+const highlight = (text: string, query: string) => {
+  const wanted = query.trim();
+  if (!wanted) return text;
+  const escaped = wanted.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.split(new RegExp(`(${escaped})`, 'gi')).map((part, i) =>
+    part.toLowerCase() === wanted.toLowerCase()
+      ? <mark key={i} className="bg-yellow-200 rounded px-0.5">{part}</mark>
+      : part
+  );
+};
+
+const SessionLog: React.FC<SessionLogProps> = ({ current, onClose }) => {
+  const { activeProfile } = useProfiles();
+  const [stored, setStored] = useState<TranscriptSession[]>([]);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    listSessions(activeProfile.id).then(setStored).catch(err => console.error("Loading transcripts failed", err));
+  }, [activeProfile.id]);
+
+  const sessions = current?.turns.length
+    ? [current, ...stored.filter(s => s.id !== current.id)]
+    : stored;
+  const results = searchSessions(sessions, query);
+
+  const removeSession = async (session: TranscriptSession) => {
+    if (!confirm('要删除这次的对话记录吗？')) return;
+    await deleteSession(session.id);
+    setStored(prev => prev.filter(s => s.id !== session.id));
+  };
+
+  return (
+    <div className="flex flex-col w-full max-w-md mx-auto h-full overflow-y-auto p-4 pb-24">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onClose} className="p-2 rounded-full bg-white shadow text-orange-500">
+          <ArrowLeft size={24} />
+        </button>
+        <h1 className="text-2xl font-black text-orange-500 flex items-center gap-2">
+          <ScrollText className="text-orange-400" /> 对话记录
+        </h1>
+        <span className="ml-auto text-sm font-bold text-gray-400">{sessions.length} 次</span>
+      </div>
+
+      <div className="flex items-center gap-2 bg-white rounded-2xl shadow px-3 py-2 mb-3">
+        <Search size={18} className="text-gray-400" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="搜索说过的话..."
+          className="flex-1 outline-none font-bold text-gray-600 bg-transparent"
+        />
+      </div>
+
+      {results.length > 0 && (
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => exportSessions(results, 'text')}
+            className="flex-1 bg-white text-orange-500 py-2 rounded-2xl font-bold shadow flex items-center justify-center gap-2"
+          >
+            <FileText size={18} /> 导出文本
+          </button>
+          <button
+            onClick={() => exportSessions(results, 'json')}
+            className="flex-1 bg-white text-orange-500 py-2 rounded-2xl font-bold shadow flex items-center justify-center gap-2"
+          >
+            <FileJson size={18} /> 导出 JSON
+          </button>
+        </div>
+      )}
+
+      {results.length === 0 ? (
+        <div className="text-center text-gray-400 font-bold mt-16">
+          <p className="text-5xl mb-4">💬</p>
+          {query.trim() ? '没有找到相关的对话' : '还没有对话记录哦！'}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {results.map(session => (
+            <div key={session.id} className="bg-white rounded-3xl shadow p-4 border-2 border-amber-100">
+              <div className="flex items-center mb-3">
+                <p className="font-black text-orange-600">{new Date(session.startedAt).toLocaleString()}</p>
+                <span className="ml-2 text-xs font-bold text-orange-400 bg-orange-50 px-2 py-0.5 rounded-full">{TAB_LABELS[session.tab]}</span>
+                {session.id === current?.id ? (
+                  <span className="ml-auto text-xs font-bold text-green-500">进行中</span>
+                ) : (
+                  <button onClick={() => removeSession(session)} className="ml-auto text-red-400 p-1">
+                    <Trash2 size={18} />
+                  </button>
+                )}
+              </div>
+              <div className="space-y-2">
+                {session.turns.map((turn, i) => (
+                  <div key={i} className={`flex flex-col ${turn.speaker === 'gemi' ? 'items-start' : 'items-end'}`}>
+                    <span className="text-xs font-bold text-gray-400">
+                      {SPEAKER_LABELS[turn.speaker]} · {formatTime(turn.at)}
+                    </span>
+                    <p className={`px-3 py-2 rounded-2xl font-bold max-w-[90%] ${turn.speaker === 'gemi' ? 'bg-orange-50 text-orange-700 rounded-tl-none' : 'bg-blue-50 text-blue-700 rounded-tr-none'}`}>
+                      {highlight(turn.text, query)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionLog;
@@ -0,0 +1,67 @@
+import React, { useState, useEffect } from 'react';
+import { LockReason } from '../services/screenTime';
+import { useAiProvider } from '../services/AiProviderContext';
+import { useLanguages, useProfiles } from '../services/ProfileContext';
+import { getSpeech } from '../services/speechCache';
+import { audioPlayback } from '../services/audioPlayback';
+import ParentalSettings from './ParentalSettings';
+import { Moon, Lock } from 'lucide-react';
+
+interface SleepScreenProps {
+  reason: LockReason;
+}
+
+// Said in the parent's language so the littlest ones understand it too
+const GOODNIGHTS: Record<LockReason, string> = {
+  timeUp: '今天玩得真开心！Gemi 累了，要去睡觉啦。我们明天再一起玩吧，晚安！',
+  quietHours: '现在是休息时间啦，Gemi 要去睡觉了。晚安，明天见！',
+};
+
+const SleepScreen: React.FC<SleepScreenProps> = ({ reason }) => {
+  const ai = useAiProvider();
+  const { activeProfile } = useProfiles();
+  const { languages } = useLanguages();
+  const [showSettings, setShowSettings] = useState(false);
+
+  // Gemi winds down out loud, once per lock
+  useEffect(() => {
+    let cancelled = false;
+    audioPlayback.stopAll();
+    getSpeech(ai, GOODNIGHTS[reason], languages.native)
+      .then(buffer => {
+        if (buffer && !cancelled) audioPlayback.play(buffer);
+      })
+      .catch(err => console.error("Goodnight speech failed", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [ai, reason, languages.native]);
+
+  return (
+    <div className="fixed inset-0 z-[55] bg-indigo-900 flex flex-col items-center justify-center p-6 text-center">
+      <Moon size={48} className="absolute top-10 right-10 text-yellow-200" fill="currentColor" />
+      <span className="absolute top-24 left-12 text-yellow-100 animate-pulse">✦</span>
+      <span className="absolute top-40 right-1/3 text-yellow-100 animate-pulse">✦</span>
+      <span className="absolute bottom-40 left-1/4 text-yellow-100 animate-pulse">✦</span>
+
+      <p className="text-8xl mb-6 animate-bounce">😴</p>
+      <h1 className="text-3xl font-black text-white mb-3">Gemi 去睡觉啦</h1>
+      <p className="text-lg font-bold text-indigo-200 max-w-xs">
+        {reason === 'timeUp'
+          ? `${activeProfile.name}，今天的时间用完啦，明天再来玩吧！`
+          : `${activeProfile.name}，现在是休息时间，晚安！`}
+      </p>
+
+      <button
+        onClick={() => setShowSettings(true)}
+        className="absolute bottom-8 flex items-center gap-1 text-sm font-bold text-indigo-300"
+      >
+        <Lock size={16} /> 家长
+      </button>
+
+      {showSettings && <ParentalSettings onClose={() => setShowSettings(false)} />}
+    </div>
+  );
+};
+
+export default SleepScreen;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { MAX_STARS, PRONUNCIATION_FEEDBACK } from '../services/pronunciation';
+
+interface StarRatingProps {
+  stars: number;
+  // What the child was heard saying
+  heard?: string;
+}
+
+const StarRating: React.FC<StarRatingProps> = ({ stars, heard }) => (
+  <div className="text-center animate-in fade-in zoom-in duration-500">
+    <div className="flex justify-center gap-1 mb-2">
+      {Array.from({ length: MAX_STARS }, (_, i) => (
+        <Star
+          key={i}
+          size={40}
+          className={i < stars ? 'text-yellow-400' : 'text-gray-200'}
+          fill="currentColor"
+        />
+      ))}
+    </div>
+    <p className="text-xl font-black text-orange-500">{PRONUNCIATION_FEEDBACK[stars]}</p>
+    {heard && <p className="text-gray-400 text-sm mt-1">听到：“{heard}”</p>}
+  </div>
+);
+
+export default StarRating;
@@ -1,40 +1,137 @@
-import React, { useState, useRef } from 'react';
-import { generateStoryFromImage, generateSpeech } from '../services/geminiService';
-import { Camera, BookOpen, Play, Pause, RotateCcw, Sparkles, Upload } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { useAiProvider } from '../services/AiProviderContext';
+import { useLanguages, useProfiles } from '../services/ProfileContext';
+import { trackWord, vocabularyToCard } from '../services/spacedRepetition';
+import { saveBook } from '../services/storyBooks';
+import { audioBufferToPcm, pcmToAudioBuffer } from '../services/audioUtils';
+import { getSpeech } from '../services/speechCache';
+import { resizeImage } from '../services/imageUtils';
+import { ContentBlockedError, logSafetyEvent, screenStory } from '../services/safety';
+import { PhotoNotAllowedError, canSendPhotos, getPrivacySettings, preparePhoto } from '../services/privacy';
+import { ReadAlongPlayer, ReadAlongPosition, bareWord, joinSentences, splitWords } from '../services/readAlong';
+import { AppTab, BookPage, LanguageCode, NarratedSentence, StoredAudio, StoryBook } from '../types';
+import { LANGUAGES } from '../languages';
+import BookShelf from './BookShelf';
+import ReadAlongText from './ReadAlongText';
+import SafetyFallback from './SafetyFallback';
+import PhotoDisclosure from './PhotoDisclosure';
+import { Camera, BookOpen, Play, Pause, RotateCcw, Sparkles, Upload, ChevronLeft, ChevronRight, Save, Library, SkipBack, SkipForward, Languages, Headphones } from 'lucide-react';
 
 const StoryTab: React.FC = () => {
-  const [image, setImage] = useState<string | null>(null);
+  // The book being read: pages accumulate until a new book is started
+  const [pages, setPages] = useState<BookPage[]>([]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [book, setBook] = useState<StoryBook | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [showShelf, setShowShelf] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [story, setStory] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  // Read-along: the word being spoken, and the sentence to continue from
+  const [position, setPosition] = useState<ReadAlongPosition | null>(null);
+  const [cursor, setCursor] = useState(0);
+  // Bilingual reading: show the parent's-language line under each sentence,
+  // and read it aloud after the sentence
+  const [showTranslation, setShowTranslation] = useState(false);
+  const [narrateTranslation, setNarrateTranslation] = useState(false);
+  const [heldBack, setHeldBack] = useState(false);
   
+  const ai = useAiProvider();
+  const { languages } = useLanguages();
+  const { activeProfile } = useProfiles();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const audioCtxRef = useRef<AudioContext | null>(null);
-  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const audioBufferRef = useRef<AudioBuffer | null>(null);
+  const playerRef = useRef<ReadAlongPlayer | null>(null);
+  // Bumped on every stop so a read still loading its clips doesn't start late
+  const readIdRef = useRef(0);
+  // Whether the current read runs to the end of the page (vs. one sentence)
+  const readsToEndRef = useRef(false);
+
+  const page = pages[pageIndex] as BookPage | undefined;
+  // A re-opened book keeps the language it was read in
+  const language = book?.targetLanguage ?? languages.target;
+
+  useEffect(() => {
+    const player = new ReadAlongPlayer(
+      (next) => {
+        setPosition(next);
+        if (next) setCursor(next.sentence);
+      },
+      () => {
+        setIsPlaying(false);
+        if (readsToEndRef.current) setCursor(0);
+      }
+    );
+    playerRef.current = player;
+    return () => player.stop();
+  }, []);
+
+  const triggerCamera = () => {
+    if (!canSendPhotos()) {
+      alert("Oops! Ask a grown-up to allow photos in parent settings first.");
+      return;
+    }
+    fileInputRef.current?.click();
+  };
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Let the same photo be picked again for the next page
+    e.target.value = '';
     if (!file) return;
 
     stopAudio();
-    setStory(null);
     setLoading(true);
 
     const reader = new FileReader();
     reader.onloadend = async () => {
-      const base64 = reader.result as string;
-      setImage(base64);
-      const base64Data = base64.split(',')[1];
-      
       try {
-        const storyText = await generateStoryFromImage(base64Data);
-        setStory(storyText);
-        // Pre-fetch audio
-        const buffer = await generateSpeech(storyText);
-        audioBufferRef.current = buffer;
-        if (buffer) playAudio(buffer);
+        // Faces are blurred before the photo is sent, shown or kept
+        const base64 = await preparePhoto(reader.result as string);
+        const base64Data = base64.split(',')[1];
+
+        // Earlier pages' narration keeps characters and plot consistent
+        const previousPages = pages.map(p => p.text);
+        const result = await ai.generateStoryFromImage(base64Data, { ...languages, target: language }, activeProfile.age, previousPages);
+        const terms = screenStory(result);
+        if (terms.length) {
+          logSafetyEvent(activeProfile.id, AppTab.STORY, 'filtered', terms, joinSentences(result.sentences.map(sentence => sentence.text)))
+            .catch(err => console.error("Logging safety event failed", err));
+          setHeldBack(true);
+          return;
+        }
+        const keyWords = result.sentences.flatMap(sentence => sentence.vocabulary);
+        // Schedule the story's key words for review
+        keyWords.forEach(word => {
+          trackWord(activeProfile.id, vocabularyToCard(word, language), 'story')
+            .catch(err => console.error("Tracking word failed", err));
+        });
+        // Narrate sentence by sentence for read-along; the audio is kept with
+        // the page so saved books replay offline
+        const [sentences, image] = await Promise.all([
+          narrateSentences(result.sentences, narrateTranslation),
+          resizeImage(base64),
+        ]);
+        const newPage: BookPage = {
+          image,
+          text: joinSentences(result.sentences.map(sentence => sentence.text)),
+          keyWords,
+          sentences,
+        };
+        setPages(prev => [...prev, newPage]);
+        setPageIndex(pages.length);
+        setCursor(0);
+        setIsDirty(true);
+        readPage(newPage, 0);
       } catch (err) {
+        if (err instanceof ContentBlockedError) {
+          logSafetyEvent(activeProfile.id, AppTab.STORY, 'blocked', [])
+            .catch(e => console.error("Logging safety event failed", e));
+          setHeldBack(true);
+          return;
+        }
+        if (err instanceof PhotoNotAllowedError) {
+          alert("Oops! Ask a grown-up to allow photos in parent settings first.");
+          return;
+        }
         alert("Oops! Couldn't read the story. Try again!");
       } finally {
         setLoading(false);
@@ -43,60 +140,185 @@ const StoryTab: React.FC = () => {
     reader.readAsDataURL(file);
   };
 
-  const playAudio = async (buffer: AudioBuffer) => {
+  const speak = async (text: string, lang: LanguageCode): Promise<StoredAudio | undefined> => {
+    const buffer = await getSpeech(ai, text, lang);
+    return buffer ? audioBufferToPcm(buffer) : undefined;
+  };
+
+  // Fills in whatever narration the sentences are missing: their own audio
+  // and, when asked for, the translation's
+  const narrateSentences = (sentences: NarratedSentence[], withTranslation: boolean): Promise<NarratedSentence[]> =>
+    Promise.all(sentences.map(async sentence => {
+      const needsTranslation = withTranslation && !sentence.translationAudio;
+      const [audio, translationAudio] = await Promise.all([
+        sentence.audio ?? speak(sentence.text, language),
+        needsTranslation ? speak(sentence.translation, languages.native) : sentence.translationAudio,
+      ]);
+      return { ...sentence, audio, translationAudio };
+    }));
+
+  // Clips for every sentence of a page; missing narration (TTS hiccup,
+  // translations turned on later) is fetched now and kept with the page
+  const loadClips = async (target: BookPage, withTranslation: boolean) => {
+    const complete = target.sentences.every(sentence =>
+      sentence.audio && (!withTranslation || sentence.translationAudio));
+    let sentences = target.sentences;
+    if (!complete) {
+      sentences = await narrateSentences(target.sentences, withTranslation);
+      const updated = { ...target, sentences };
+      setPages(prev => prev.map(p => (p === target ? updated : p)));
+      setIsDirty(true);
+    }
+    return {
+      // Sentences that still have no voice get a short silence so highlighting moves on
+      clips: sentences.map(sentence => sentence.audio
+        ? pcmToAudioBuffer(sentence.audio)
+        : new AudioBuffer({ numberOfChannels: 1, length: 24000, sampleRate: 24000 })),
+      translations: sentences.map(sentence =>
+        withTranslation && sentence.translationAudio ? pcmToAudioBuffer(sentence.translationAudio) : null),
+    };
+  };
+
+  const sentenceWords = (target: BookPage) =>
+    target.sentences.map(sentence => splitWords(sentence.text, language));
+
+  // Reads from one sentence to the end of the page, or just that sentence
+  const readPage = async (target: BookPage, from: number, onlyOne = false) => {
+    if (!target.sentences.length) return;
     stopAudio();
-    
-    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    audioCtxRef.current = ctx;
-    
-    const source = ctx.createBufferSource();
-    source.buffer = buffer;
-    source.connect(ctx.destination);
-    source.onended = () => setIsPlaying(false);
-    
-    sourceRef.current = source;
-    source.start(0);
+    const readId = readIdRef.current;
+    readsToEndRef.current = !onlyOne;
     setIsPlaying(true);
+    const { clips, translations } = await loadClips(target, narrateTranslation);
+    if (readId !== readIdRef.current) return;
+    playerRef.current?.play(clips, sentenceWords(target), from, onlyOne ? from : clips.length - 1, translations);
   };
 
   const stopAudio = () => {
-    if (sourceRef.current) {
-      sourceRef.current.stop();
-      sourceRef.current = null;
-    }
-    if (audioCtxRef.current) {
-      audioCtxRef.current.close();
-      audioCtxRef.current = null;
-    }
+    readIdRef.current++;
+    playerRef.current?.stop();
     setIsPlaying(false);
   };
 
   const togglePlay = () => {
     if (isPlaying) {
       stopAudio();
-    } else if (audioBufferRef.current) {
-      playAudio(audioBufferRef.current);
+    } else if (page) {
+      readPage(page, cursor);
     }
   };
 
+  const stepSentence = (delta: number) => {
+    if (!page) return;
+    const next = Math.min(page.sentences.length - 1, Math.max(0, cursor + delta));
+    setCursor(next);
+    readPage(page, next, true);
+  };
+
+  const speakWord = async (word: string) => {
+    const text = bareWord(word);
+    if (!text) return;
+    stopAudio();
+    const readId = readIdRef.current;
+    const buffer = await getSpeech(ai, text, language);
+    if (buffer && readId === readIdRef.current) playerRef.current?.playClip(buffer);
+  };
+
+  const goToPage = (index: number) => {
+    stopAudio();
+    setPageIndex(index);
+    setCursor(0);
+    const next = pages[index];
+    if (next) readPage(next, 0);
+  };
+
+  const handleSave = async () => {
+    const title = book?.title || prompt("给这本绘本起个名字吧：", `${activeProfile.name}的绘本`)?.trim();
+    if (!title) return;
+    const now = Date.now();
+    try {
+      const saved = await saveBook({
+        id: book?.id ?? crypto.randomUUID(),
+        profileId: activeProfile.id,
+        title,
+        targetLanguage: language,
+        // Without photos the book keeps its words and narration only
+        pages: getPrivacySettings().keepPhotos ? pages : pages.map(({ image, ...rest }) => rest),
+        createdAt: book?.createdAt ?? now,
+        updatedAt: now,
+      });
+      setBook(saved);
+      setIsDirty(false);
+    } catch (err) {
+      console.error("Saving book failed", err);
+      alert("Oops! Couldn't save the book.");
+    }
+  };
+
+  const startNewBook = () => {
+    if (isDirty && !confirm("这本绘本还没保存，要开始新的一本吗？")) return;
+    stopAudio();
+    setPages([]);
+    setPageIndex(0);
+    setCursor(0);
+    setBook(null);
+    setIsDirty(false);
+  };
+
+  const openBook = (saved: StoryBook) => {
+    stopAudio();
+    setBook(saved);
+    setPages(saved.pages);
+    setPageIndex(0);
+    setCursor(0);
+    setIsDirty(false);
+    setShowShelf(false);
+  };
+
+  if (showShelf) {
+    return <BookShelf onClose={() => setShowShelf(false)} onOpen={openBook} />;
+  }
+
   return (
     <div className="flex flex-col items-center p-4 space-y-6 w-full max-w-md mx-auto h-full overflow-y-auto pb-24">
       <h1 className="text-3xl font-black text-rose-500 drop-shadow-sm flex items-center gap-2">
-        <BookOpen className="text-rose-400" /> 绘本故事
+        <BookOpen className="text-rose-400" /> {book?.title || '绘本故事'}
       </h1>
 
       <div className="w-full bg-white rounded-3xl shadow-xl overflow-hidden border-4 border-rose-200 relative flex flex-col">
         
         {/* Image Area */}
         <div className="relative w-full h-64 bg-rose-50 flex items-center justify-center overflow-hidden">
-          {!image && (
+          {!page && (
             <div className="text-center p-8">
               <BookOpen size={48} className="mx-auto text-rose-300 mb-2" />
               <p className="text-gray-500 font-bold">拍下绘本的一页<br/>我来讲故事</p>
             </div>
           )}
-          {image && (
-            <img src={image} alt="Story Book" className="w-full h-full object-cover" />
+          {page?.image && (
+            <img src={page.image} alt="Story Book" className="w-full h-full object-cover" />
+          )}
+          {page && !page.image && <span className="text-7xl">📖</span>}
+          {pages.length > 1 && (
+            <>
+              <button
+                onClick={() => goToPage(pageIndex - 1)}
+                disabled={pageIndex === 0 || loading}
+                className="absolute left-2 top-1/2 -translate-y-1/2 bg-white/80 rounded-full p-2 shadow text-rose-500 disabled:opacity-30"
+              >
+                <ChevronLeft size={28} />
+              </button>
+              <button
+                onClick={() => goToPage(pageIndex + 1)}
+                disabled={pageIndex === pages.length - 1 || loading}
+                className="absolute right-2 top-1/2 -translate-y-1/2 bg-white/80 rounded-full p-2 shadow text-rose-500 disabled:opacity-30"
+              >
+                <ChevronRight size={28} />
+              </button>
+              <span className="absolute bottom-2 right-3 bg-white/80 rounded-full px-3 py-1 text-sm font-bold text-rose-500">
+                {pageIndex + 1} / {pages.length}
+              </span>
+            </>
           )}
           {loading && (
             <div className="absolute inset-0 bg-white/80 flex flex-col items-center justify-center backdrop-blur-sm z-10">
@@ -108,27 +330,71 @@ const StoryTab: React.FC = () => {
 
         {/* Story Content */}
         <div className="p-6 flex-1 flex flex-col">
-           {story ? (
+           {page ? (
              <>
+                <div className="flex gap-2 mb-3">
+                  <button
+                    onClick={() => setShowTranslation(v => !v)}
+                    className={`flex-1 p-2 rounded-xl font-bold text-sm flex items-center justify-center gap-1 transition-colors
+                      ${showTranslation ? 'bg-rose-500 text-white' : 'bg-rose-50 text-rose-400'}`}
+                  >
+                    <Languages size={16} /> 显示{LANGUAGES[languages.native].label}
+                  </button>
+                  <button
+                    onClick={() => {
+                      stopAudio();
+                      setNarrateTranslation(v => !v);
+                    }}
+                    className={`flex-1 p-2 rounded-xl font-bold text-sm flex items-center justify-center gap-1 transition-colors
+                      ${narrateTranslation ? 'bg-rose-500 text-white' : 'bg-rose-50 text-rose-400'}`}
+                  >
+                    <Headphones size={16} /> 朗读{LANGUAGES[languages.native].label}
+                  </button>
+                </div>
+
                 <div className="bg-rose-50 p-4 rounded-2xl mb-6 flex-1">
-                  <p className="text-lg text-rose-900 font-bold leading-relaxed font-['Nunito']">
-                    {story}
-                  </p>
+                  <ReadAlongText
+                    sentences={page.sentences.map(sentence => ({
+                      words: splitWords(sentence.text, language),
+                      spaced: /\s/.test(sentence.text.trim()),
+                      translation: sentence.translation,
+                      vocabulary: sentence.vocabulary,
+                    }))}
+                    position={position}
+                    cursor={cursor}
+                    showTranslation={showTranslation}
+                    onWordTap={speakWord}
+                  />
                 </div>
                 
-                <button 
-                  onClick={togglePlay}
-                  disabled={!audioBufferRef.current}
-                  className={`w-full p-4 rounded-2xl font-bold text-xl shadow-lg flex items-center justify-center gap-2 transition-all active:scale-95 
-                    ${isPlaying ? 'bg-rose-100 text-rose-600' : 'bg-rose-500 text-white hover:bg-rose-600'}`}
-                >
-                  {isPlaying ? <><Pause fill="currentColor" /> 暂停</> : <><Play fill="currentColor" /> 听故事</>}
-                </button>
+                <div className="flex gap-2">
+                  <button 
+                    onClick={() => stepSentence(-1)}
+                    disabled={cursor === 0}
+                    className="p-4 rounded-2xl bg-rose-100 text-rose-500 disabled:opacity-40 active:scale-95"
+                  >
+                    <SkipBack fill="currentColor" />
+                  </button>
+                  <button 
+                    onClick={togglePlay}
+                    className={`flex-1 p-4 rounded-2xl font-bold text-xl shadow-lg flex items-center justify-center gap-2 transition-all active:scale-95 
+                      ${isPlaying ? 'bg-rose-100 text-rose-600' : 'bg-rose-500 text-white hover:bg-rose-600'}`}
+                  >
+                    {isPlaying ? <><Pause fill="currentColor" /> 暂停</> : <><Play fill="currentColor" /> 听故事</>}
+                  </button>
+                  <button 
+                    onClick={() => stepSentence(1)}
+                    disabled={cursor >= page.sentences.length - 1}
+                    className="p-4 rounded-2xl bg-rose-100 text-rose-500 disabled:opacity-40 active:scale-95"
+                  >
+                    <SkipForward fill="currentColor" />
+                  </button>
+                </div>
              </>
            ) : (
              !loading && (
                <button 
-                onClick={() => fileInputRef.current?.click()}
+                onClick={triggerCamera}
                 className="w-full bg-rose-500 text-white p-4 rounded-2xl font-bold text-xl shadow-lg flex items-center justify-center gap-2 hover:bg-rose-600 transition-all active:translate-y-1 mt-auto"
                >
                  <Camera /> 拍照片
@@ -138,7 +404,7 @@ const StoryTab: React.FC = () => {
         </div>
       </div>
 
-      {/* Hidden Input & Retry Button if story exists */}
+      {/* Hidden Input & Book Controls */}
       <input 
         type="file" 
         accept="image/*" 
@@ -148,16 +414,54 @@ const StoryTab: React.FC = () => {
         onChange={handleFileChange} 
       />
       
-      {story && (
+      {pages.length > 0 && (
+        <div className="flex gap-3 w-full">
+          <button 
+            onClick={triggerCamera}
+            disabled={loading}
+            className="flex-1 bg-white border-2 border-rose-200 text-rose-500 p-3 rounded-2xl font-bold flex items-center justify-center gap-2 active:translate-y-1"
+          >
+            <Camera size={20} /> 拍下一页
+          </button>
+          {isDirty && (
+            <button 
+              onClick={handleSave}
+              disabled={loading}
+              className="flex-1 bg-rose-500 text-white p-3 rounded-2xl font-bold shadow-lg flex items-center justify-center gap-2 active:translate-y-1"
+            >
+              <Save size={20} /> 保存绘本
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-6">
         <button 
-          onClick={() => fileInputRef.current?.click()}
+          onClick={() => {
+            stopAudio();
+            setShowShelf(true);
+          }}
           className="text-rose-400 font-bold flex items-center gap-2 hover:text-rose-600"
         >
-          <RotateCcw size={18} /> 换一页
+          <Library size={18} /> 我的书架
         </button>
+        {pages.length > 0 && (
+          <button 
+            onClick={startNewBook}
+            className="text-rose-400 font-bold flex items-center gap-2 hover:text-rose-600"
+          >
+            <RotateCcw size={18} /> 新的一本
+          </button>
+        )}
+      </div>
+
+      <PhotoDisclosure />
+
+      {heldBack && (
+        <SafetyFallback message="这一页 Gemi 想换个故事讲，我们拍另一张图吧！" onClose={() => setHeldBack(false)} />
       )}
     </div>
   );
 };
 
-export default StoryTab;
\ No newline at end of file
+export default StoryTab;
@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from 'react';
+import { audioPlayback } from '../services/audioPlayback';
+import { Volume1, Volume2, VolumeX } from 'lucide-react';
+
+// App-wide volume, for parents; applies to every sound including Gemi's voice
+const VolumeControl: React.FC = () => {
+  const [volume, setVolume] = useState(audioPlayback.getVolume());
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => audioPlayback.onVolumeChange(setVolume), []);
+
+  const Icon = volume === 0 ? VolumeX : volume < 0.5 ? Volume1 : Volume2;
+
+  return (
+    <div className="absolute top-3 left-3 z-50 flex items-center gap-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-white/90 rounded-full shadow-md p-2 text-gray-600"
+      >
+        <Icon size={22} />
+      </button>
+      {isOpen && (
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={volume}
+          onChange={(e) => audioPlayback.setVolume(parseFloat(e.target.value))}
+          className="w-32 accent-yellow-500"
+        />
+      )}
+    </div>
+  );
+};
+
+export default VolumeControl;
@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { SavedWord } from '../types';
+import { useAiProvider } from '../services/AiProviderContext';
+import { useProfiles } from '../services/ProfileContext';
+import { deleteWord, listWords } from '../services/wordCollection';
+import { getSpeech } from '../services/speechCache';
+import { audioPlayback } from '../services/audioPlayback';
+import { ArrowLeft, Volume2, Trash2, BookHeart } from 'lucide-react';
+
+interface WordCollectionProps {
+  onClose: () => void;
+}
+
+const WordCollection: React.FC<WordCollectionProps> = ({ onClose }) => {
+  const ai = useAiProvider();
+  const { activeProfile } = useProfiles();
+  const [words, setWords] = useState<SavedWord[]>([]);
+  const [selected, setSelected] = useState<SavedWord | null>(null);
+
+  useEffect(() => {
+    listWords(activeProfile.id).then(setWords).catch(err => console.error("Loading words failed", err));
+  }, [activeProfile.id]);
+
+  const playAudio = async (word: SavedWord) => {
+    const buffer = await getSpeech(ai, word.card.targetWord + ". " + word.card.simpleSentence, word.card.targetLanguage);
+    if (buffer) audioPlayback.play(buffer);
+  };
+
+  const removeWord = async (word: SavedWord) => {
+    await deleteWord(word.id);
+    setWords(prev => prev.filter(w => w.id !== word.id));
+    setSelected(null);
+  };
+
+  return (
+    <div className="flex flex-col w-full max-w-md mx-auto h-full overflow-y-auto p-4 pb-24">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onClose} className="p-2 rounded-full bg-white shadow text-orange-500">
+          <ArrowLeft size={24} />
+        </button>
+        <h1 className="text-2xl font-black text-orange-500 flex items-center gap-2">
+          <BookHeart className="text-orange-400" /> 我的单词本
+        </h1>
+        <span className="ml-auto text-sm font-bold text-gray-400">{words.length} 个</span>
+      </div>
+
+      {words.length === 0 ? (
+        <div className="text-center text-gray-400 font-bold mt-16">
+          <p className="text-5xl mb-4">📷</p>
+          还没有单词哦，去拍照片吧！
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 gap-3">
+          {words.map(word => (
+            <button
+              key={word.id}
+              onClick={() => {
+                setSelected(word);
+                playAudio(word);
+              }}
+              className="bg-white rounded-2xl shadow overflow-hidden border-2 border-yellow-200 active:scale-95 transition-transform"
+            >
+              {word.thumbnail ? (
+                <img src={word.thumbnail} alt={word.card.targetWord} className="w-full aspect-square object-cover" />
+              ) : (
+                <div className="w-full aspect-square bg-yellow-50 flex items-center justify-center text-5xl">{word.card.emoji}</div>
+              )}
+              <p className="py-1 font-black text-blue-600 text-sm truncate px-1">
+                {word.card.emoji} {word.card.targetWord}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Card detail */}
+      {selected && (
+        <div className="fixed inset-0 bg-black/30 z-[60] flex items-center justify-center p-4" onClick={() => setSelected(null)}>
+          <div
+            className="bg-white rounded-3xl shadow-2xl w-full max-w-sm overflow-hidden border-4 border-yellow-400"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {selected.thumbnail && (
+              <img src={selected.thumbnail} alt={selected.card.targetWord} className="w-full h-48 object-cover" />
+            )}
+            <div className="p-6 text-center bg-gradient-to-b from-white to-yellow-50">
+              <span className="text-5xl">{selected.card.emoji}</span>
+              <h2 className="text-4xl font-black text-blue-600 mb-1">{selected.card.targetWord}</h2>
+              <p className="text-gray-400 text-lg italic mb-2">/{selected.card.pronunciation}/</p>
+              <h3 className="text-2xl font-bold text-orange-500 mb-4">{selected.card.nativeWord}</h3>
+              <div className="bg-orange-100 p-4 rounded-2xl mb-4">
+                <p className="text-lg text-orange-800 font-bold leading-tight">"{selected.card.simpleSentence}"</p>
+              </div>
+              <div className="flex justify-center gap-4">
+                <button
+                  onClick={() => removeWord(selected)}
+                  className="bg-red-50 text-red-500 p-4 rounded-full"
+                >
+                  <Trash2 size={28} />
+                </button>
+                <button
+                  onClick={() => playAudio(selected)}
+                  className="bg-green-400 hover:bg-green-500 text-white p-4 rounded-full shadow-lg transition-transform active:scale-90"
+                >
+                  <Volume2 size={32} fill="currentColor" />
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WordCollection;
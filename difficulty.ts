@@ -0,0 +1,47 @@
+// Age-based difficulty. Shared by the prompts on the server and in the
+// live tabs so every feature pitches its language at the same level.
+
+export type DifficultyLevel = 'toddler' | 'preschool' | 'early-reader';
+
+export interface Difficulty {
+  level: DifficultyLevel;
+  // Longest sentence (in words) we ask the model for
+  maxSentenceWords: number;
+  // Story length, e.g. "3-4"
+  storySentences: string;
+  // Vocabulary guidance for prompts
+  vocabulary: string;
+}
+
+export const MIN_CHILD_AGE = 2;
+export const MAX_CHILD_AGE = 7;
+
+const DIFFICULTIES: Record<DifficultyLevel, Difficulty> = {
+  'toddler': {
+    level: 'toddler',
+    maxSentenceWords: 4,
+    storySentences: '2-3',
+    vocabulary: 'Only the most basic first words (animals, food, family, colors, body parts). No abstract words.',
+  },
+  'preschool': {
+    level: 'preschool',
+    maxSentenceWords: 6,
+    storySentences: '3-4',
+    vocabulary: 'Common everyday words a preschooler hears at home and in kindergarten.',
+  },
+  'early-reader': {
+    level: 'early-reader',
+    maxSentenceWords: 10,
+    storySentences: '5-6',
+    vocabulary: 'Everyday words plus simple adjectives, action verbs and feelings.',
+  },
+};
+
+export const getDifficulty = (age: number): Difficulty => {
+  if (age <= 3) return DIFFICULTIES['toddler'];
+  if (age <= 5) return DIFFICULTIES['preschool'];
+  return DIFFICULTIES['early-reader'];
+};
+
+export const clampAge = (age: number) =>
+  Math.min(MAX_CHILD_AGE, Math.max(MIN_CHILD_AGE, Math.round(age)));
@@ -1,6 +1,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { AiProviderProvider } from './services/AiProviderContext';
+import { ProfileProvider } from './services/ProfileContext';
+import { ParentalControlsProvider } from './services/ParentalControlsContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +13,12 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <AiProviderProvider>
+      <ProfileProvider>
+        <ParentalControlsProvider>
+          <App />
+        </ParentalControlsProvider>
+      </ProfileProvider>
+    </AiProviderProvider>
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { LanguageCode, LanguagePair } from './types';
+
+// Everything language-specific lives here so prompts, TTS and UI all agree
+// on the same pair.
+
+// Crayons in the coloring page
+export const COLOR_NAMES = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'brown'] as const;
+export type ColorName = typeof COLOR_NAMES[number];
+
+export interface LanguageInfo {
+  code: LanguageCode;
+  // Used inside model prompts
+  englishName: string;
+  // Shown in the (Chinese) UI
+  label: string;
+  flag: string;
+  // Gemini TTS prebuilt voice that sounds natural in this language
+  ttsVoice: string;
+  // Easy first words for the magic canvas, with their Chinese meaning
+  starterWords: { word: string; meaning: string }[];
+  // Spoken when the child colors with a crayon
+  colorWords: Record<ColorName, string>;
+  // Told instead of a story when the model can't make out the picture
+  unclearPicture: string;
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  zh: {
+    code: 'zh',
+    englishName: 'Chinese (Simplified)',
+    label: '中文',
+    flag: '🇨🇳',
+    ttsVoice: 'Kore',
+    starterWords: [],
+    colorWords: { red: '红色', orange: '橙色', yellow: '黄色', green: '绿色', blue: '蓝色', purple: '紫色', pink: '粉色', brown: '棕色' },
+    unclearPicture: '图片看不太清楚，没办法讲故事。',
+  },
+  en: {
+    code: 'en',
+    englishName: 'English',
+    label: '英语',
+    flag: '🇬🇧',
+    ttsVoice: 'Puck',
+    starterWords: [
+      { word: 'Big Lion', meaning: '大狮子' },
+      { word: 'Red Flower', meaning: '红色的花' },
+      { word: 'Blue Bird', meaning: '蓝色的小鸟' },
+      { word: 'Yummy Banana', meaning: '好吃的香蕉' },
+      { word: 'Huge Dinosaur', meaning: '大恐龙' },
+    ],
+    colorWords: { red: 'Red', orange: 'Orange', yellow: 'Yellow', green: 'Green', blue: 'Blue', purple: 'Purple', pink: 'Pink', brown: 'Brown' },
+    unclearPicture: "I couldn't see the picture well enough to tell a story.",
+  },
+  ja: {
+    code: 'ja',
+    englishName: 'Japanese',
+    label: '日语',
+    flag: '🇯🇵',
+    ttsVoice: 'Leda',
+    starterWords: [
+      { word: 'ねこ', meaning: '小猫' },
+      { word: 'あかい はな', meaning: '红色的花' },
+      { word: 'おおきい ぞう', meaning: '大象' },
+      { word: 'あおい とり', meaning: '蓝色的小鸟' },
+      { word: 'りんご', meaning: '苹果' },
+    ],
+    colorWords: { red: 'あか', orange: 'オレンジ', yellow: 'きいろ', green: 'みどり', blue: 'あお', purple: 'むらさき', pink: 'ピンク', brown: 'ちゃいろ' },
+    unclearPicture: 'えが よく みえなくて、おはなしが できないよ。',
+  },
+  es: {
+    code: 'es',
+    englishName: 'Spanish',
+    label: '西班牙语',
+    flag: '🇪🇸',
+    ttsVoice: 'Aoede',
+    starterWords: [
+      { word: 'León grande', meaning: '大狮子' },
+      { word: 'Flor roja', meaning: '红色的花' },
+      { word: 'Pájaro azul', meaning: '蓝色的小鸟' },
+      { word: 'Plátano', meaning: '香蕉' },
+      { word: 'Dinosaurio', meaning: '恐龙' },
+    ],
+    colorWords: { red: 'Rojo', orange: 'Naranja', yellow: 'Amarillo', green: 'Verde', blue: 'Azul', purple: 'Morado', pink: 'Rosa', brown: 'Marrón' },
+    unclearPicture: 'No pude ver bien el dibujo para contar un cuento.',
+  },
+  fr: {
+    code: 'fr',
+    englishName: 'French',
+    label: '法语',
+    flag: '🇫🇷',
+    ttsVoice: 'Charon',
+    starterWords: [
+      { word: 'Grand lion', meaning: '大狮子' },
+      { word: 'Fleur rouge', meaning: '红色的花' },
+      { word: 'Oiseau bleu', meaning: '蓝色的小鸟' },
+      { word: 'Banane', meaning: '香蕉' },
+      { word: 'Dinosaure', meaning: '恐龙' },
+    ],
+    colorWords: { red: 'Rouge', orange: 'Orange', yellow: 'Jaune', green: 'Vert', blue: 'Bleu', purple: 'Violet', pink: 'Rose', brown: 'Marron' },
+    unclearPicture: "Je n'ai pas assez bien vu l'image pour raconter une histoire.",
+  },
+};
+
+// Languages a child can learn (the parent's language is Chinese for now)
+export const TARGET_LANGUAGES: LanguageCode[] = ['en', 'ja', 'es', 'fr'];
+
+export const DEFAULT_LANGUAGE_PAIR: LanguagePair = { native: 'zh', target: 'en' };
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && Object.hasOwn(LANGUAGES, value);
@@ -0,0 +1,19 @@
+// Server configuration. Values come from the environment, with .env.local
+// loaded the same way Vite does for the client.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local - rely on the real environment
+}
+
+export const config = {
+  port: Number(process.env.PROXY_PORT || 8787),
+  apiKey: process.env.GEMINI_API_KEY || '',
+  // Requests allowed per client address within one rate-limit window
+  rateLimitPerWindow: Number(process.env.RATE_LIMIT_PER_MINUTE || 30),
+  rateLimitWindowMs: 60_000,
+  // Concurrent live voice relays allowed per client address
+  maxLiveSessionsPerClient: Number(process.env.MAX_LIVE_SESSIONS || 2),
+  // Largest JSON body accepted (base64 photos are big)
+  maxBodyBytes: 10 * 1024 * 1024,
+};
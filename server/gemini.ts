@@ -0,0 +1,236 @@
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { FlashCardData, ImageStyle, LanguageCode, LanguagePair, StoryResult } from "../types";
+import { LANGUAGES } from "../languages";
+import { getDifficulty } from "../difficulty";
+import { config } from "./config";
+import { IMAGE_SAFETY_FILTER_LEVEL, SAFETY_SETTINGS, ContentBlockedError, assertNotBlocked } from "./safety";
+
+// Gemini calls run here, on the server, so the API key never reaches the browser.
+
+let aiClient: GoogleGenAI | null = null;
+export const getAiClient = () => {
+  if (!aiClient) {
+    aiClient = new GoogleGenAI({ apiKey: config.apiKey });
+  }
+  return aiClient;
+};
+
+// --- 1. Photo Analysis (Vision) ---
+export const analyzeImageForKids = async (base64Image: string, languages: LanguagePair, age: number): Promise<FlashCardData> => {
+  const ai = getAiClient();
+  const target = LANGUAGES[languages.target].englishName;
+  const native = LANGUAGES[languages.native].englishName;
+  const difficulty = getDifficulty(age);
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      targetWord: { type: Type.STRING, description: `The main object in the image in ${target}` },
+      nativeWord: { type: Type.STRING, description: `The main object in ${native}` },
+      pronunciation: { type: Type.STRING, description: `Phonetic pronunciation guide for the ${target} word (romanized if it is not written in Latin letters)` },
+      simpleSentence: { type: Type.STRING, description: `A very simple, cute sentence in ${target} about the object (max ${difficulty.maxSentenceWords} words)` },
+      emoji: { type: Type.STRING, description: "A relevant emoji" }
+    },
+    required: ["targetWord", "nativeWord", "pronunciation", "simpleSentence", "emoji"]
+  };
+
+  const prompt = `Look at this image. Identify the single most prominent object. Generate a flashcard for a ${age}-year-old child to learn ${target}. ${difficulty.vocabulary}`;
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: {
+      parts: [
+        { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+        { text: prompt }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: schema,
+      systemInstruction: "You are a preschool teacher. Keep words extremely simple and safe for children.",
+      safetySettings: SAFETY_SETTINGS
+    }
+  });
+
+  assertNotBlocked(response);
+  if (response.text) {
+    return { ...JSON.parse(response.text), targetLanguage: languages.target } as FlashCardData;
+  }
+  throw new Error("No data returned");
+};
+
+// --- 2. Audio Generation (TTS) ---
+// Returns base64 encoded 16-bit PCM at 24kHz, or null when nothing was produced.
+export const generateSpeech = async (text: string, language: LanguageCode): Promise<string | null> => {
+  const ai = getAiClient();
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash-preview-tts",
+    contents: [{ parts: [{ text: text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: LANGUAGES[language].ttsVoice },
+        },
+      },
+      safetySettings: SAFETY_SETTINGS,
+    },
+  });
+
+  assertNotBlocked(response);
+  return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+};
+
+// --- 3. Image Generation (Imagen) ---
+const IMAGE_STYLE_PROMPTS: Record<ImageStyle, string> = {
+  illustration: "A cute, colorful, cartoon style illustration for a children's book.",
+  // Closed outlines and big areas, so a tap fills one region at a time
+  coloringPage: "A coloring page for young children: thick, clean black outlines on a pure white background, every shape fully closed, large simple areas, no shading, no gray, no color, no text.",
+};
+
+export const generateKidImage = async (prompt: string, style: ImageStyle = 'illustration'): Promise<string> => {
+  const ai = getAiClient();
+  const response = await ai.models.generateImages({
+    model: 'imagen-4.0-generate-001',
+    prompt: `${IMAGE_STYLE_PROMPTS[style]} ${prompt}`,
+    config: {
+      numberOfImages: 1,
+      outputMimeType: 'image/jpeg',
+      aspectRatio: '1:1',
+      safetyFilterLevel: IMAGE_SAFETY_FILTER_LEVEL,
+      includeRaiReason: true,
+    },
+  });
+
+  const generated = response.generatedImages?.[0];
+  if (generated?.image?.imageBytes) {
+    return `data:image/jpeg;base64,${generated.image.imageBytes}`;
+  }
+  if (generated?.raiFilteredReason) throw new ContentBlockedError(generated.raiFilteredReason);
+  throw new Error("No image generated");
+};
+
+// Changes an existing picture instead of redrawing it, so the style and
+// the things already in it stay the same from turn to turn
+export const editKidImage = async (image: { mimeType: string; data: string }, instruction: string): Promise<string> => {
+  const ai = getAiClient();
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash-image',
+    contents: {
+      parts: [
+        { inlineData: image },
+        { text: `Edit this cute, colorful, cartoon style children's book illustration. ${instruction} Keep everything else exactly as it is: same drawing style, same colors, same objects in the same places.` }
+      ]
+    },
+    config: {
+      responseModalities: [Modality.IMAGE],
+      safetySettings: SAFETY_SETTINGS,
+    },
+  });
+
+  assertNotBlocked(response);
+  const edited = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+  if (edited?.data) {
+    return `data:${edited.mimeType || 'image/png'};base64,${edited.data}`;
+  }
+  throw new Error("No image edited");
+};
+
+// --- 5. Story Generation (Multimodal) ---
+export const generateStoryFromImage = async (base64Image: string, languages: LanguagePair, age: number, previousPages: string[] = []): Promise<StoryResult> => {
+  const ai = getAiClient();
+  const target = LANGUAGES[languages.target].englishName;
+  const native = LANGUAGES[languages.native].englishName;
+  const difficulty = getDifficulty(age);
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      sentences: {
+        type: Type.ARRAY,
+        description: "The story, one entry per sentence, in reading order",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING, description: `The sentence in ${target}` },
+            translation: { type: Type.STRING, description: `A natural translation of the sentence in ${native}` },
+            vocabulary: {
+              type: Type.ARRAY,
+              description: "0-1 simple words from this sentence worth learning; 2-3 across the whole story",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  targetWord: { type: Type.STRING, description: `The word in ${target}, exactly as used in the sentence` },
+                  nativeWord: { type: Type.STRING, description: `The word in ${native}` },
+                  pronunciation: { type: Type.STRING, description: `Phonetic pronunciation guide for the ${target} word` },
+                  emoji: { type: Type.STRING, description: "A relevant emoji" }
+                },
+                required: ["targetWord", "nativeWord", "pronunciation", "emoji"]
+              }
+            }
+          },
+          required: ["text", "translation", "vocabulary"]
+        }
+      }
+    },
+    required: ["sentences"]
+  };
+
+  // Earlier pages keep characters and plot consistent across a whole book
+  const storySoFar = previousPages.length
+    ? ` This is page ${previousPages.length + 1} of the same book. The story so far:\n${previousPages.map((page, i) => `Page ${i + 1}: ${page}`).join('\n')}\nContinue the story from there, keeping the same characters and names.`
+    : '';
+
+  const prompt = `You are a warm, enthusiastic storyteller for a ${age}-year-old child. Look at this image from a picture book. Tell a short, fun story (max ${difficulty.storySentences} simple sentences, each at most ${difficulty.maxSentenceWords} words) in ${target} based on what you see. ${difficulty.vocabulary} Keep it easy to understand.${storySoFar}`;
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: {
+      parts: [
+        { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+        { text: prompt }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: schema,
+      safetySettings: SAFETY_SETTINGS
+    }
+  });
+
+  assertNotBlocked(response);
+  if (response.text) {
+    const parsed = JSON.parse(response.text);
+    if (parsed.sentences?.length) return { sentences: parsed.sentences };
+  }
+  return {
+    sentences: [{
+      text: LANGUAGES[languages.target].unclearPicture,
+      translation: LANGUAGES[languages.native].unclearPicture,
+      vocabulary: []
+    }]
+  };
+};
+
+// --- 6. Weekly Parent Summary ---
+export const summarizeWeek = async (log: string, languages: LanguagePair, age: number): Promise<string> => {
+  const ai = getAiClient();
+  const target = LANGUAGES[languages.target].englishName;
+  const native = LANGUAGES[languages.native].englishName;
+
+  const prompt = `Write a short weekly learning report for the parent of a ${age}-year-old child who is learning ${target}. Write it in ${native}: warm, concrete, 4-6 sentences. Say what went well, name a few words the child learned, point out what to practice next week, and suggest one simple activity to do at home. Only use facts from the log below.\n\nActivity log:\n${log}`;
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+    config: {
+      systemInstruction: "You are a kind early-childhood language teacher writing to a busy parent.",
+      safetySettings: SAFETY_SETTINGS
+    }
+  });
+
+  assertNotBlocked(response);
+  const summary = response.text?.trim();
+  if (summary) return summary;
+  throw new Error("No summary returned");
+};
@@ -0,0 +1,199 @@
+import http from 'http';
+import { WebSocketServer } from 'ws';
+import { config } from './config';
+import { logRequest } from './logger';
+import { RateLimiter } from './rateLimit';
+import { relayLiveSession } from './liveRelay';
+import { analyzeImageForKids, editKidImage, generateKidImage, generateSpeech, generateStoryFromImage, summarizeWeek } from './gemini';
+import { ContentBlockedError } from './safety';
+import { DEFAULT_LANGUAGE_PAIR, isLanguageCode } from '../languages';
+import { clampAge } from '../difficulty';
+import { ImageStyle, LanguageCode, LanguagePair } from '../types';
+
+// API proxy: the browser talks to these endpoints and only this process
+// holds the Gemini key.
+//
+//   POST /api/flashcard  { image, languages, age }  -> FlashCardData
+//   POST /api/story      { image, languages, age, previousPages? }  -> StoryResult
+//   POST /api/speech     { text, language }    -> { audio }   (base64 PCM16 @ 24kHz)
+//   POST /api/image      { prompt, style? } -> { url }
+//   POST /api/image/edit { image, instruction } -> { url }   (image is a base64 data URL)
+//   POST /api/summary    { log, languages, age }  -> { summary }
+//   WS   /api/live                  -> live voice relay
+//
+// Anything the model refuses for safety answers 422 { error, blocked: true }.
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const limiter = new RateLimiter();
+setInterval(() => limiter.prune(), config.rateLimitWindowMs).unref();
+
+const liveSessionsByClient = new Map<string, number>();
+
+// Limits are keyed on the connection's address: the device id is chosen
+// by the browser, so a new one per request would get round them
+const getClientAddress = (req: http.IncomingMessage) => req.socket.remoteAddress || 'unknown';
+
+// The browser's self-chosen id, only for telling devices apart in the log
+const getDeviceId = (req: http.IncomingMessage) => {
+  const header = req.headers['x-device-id'];
+  const fromQuery = new URL(req.url || '/', 'http://localhost').searchParams.get('deviceId');
+  return (Array.isArray(header) ? header[0] : header) || fromQuery || '-';
+};
+
+const readJson = (req: http.IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > config.maxBodyBytes) {
+        reject(new HttpError(413, 'Body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString() || '{}'));
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const requireString = (body: any, field: string): string => {
+  const value = body?.[field];
+  if (typeof value !== 'string' || !value) {
+    throw new HttpError(400, `Missing "${field}"`);
+  }
+  return value;
+};
+
+const readLanguage = (value: unknown, fallback: LanguageCode): LanguageCode => {
+  if (value === undefined) return fallback;
+  if (!isLanguageCode(value)) throw new HttpError(400, 'Unsupported language');
+  return value;
+};
+
+const readLanguagePair = (body: any): LanguagePair => ({
+  native: readLanguage(body?.languages?.native, DEFAULT_LANGUAGE_PAIR.native),
+  target: readLanguage(body?.languages?.target, DEFAULT_LANGUAGE_PAIR.target),
+});
+
+// Child's age in years; the prompts were originally written for 3-year-olds
+const readAge = (body: any): number =>
+  typeof body?.age === 'number' && Number.isFinite(body.age) ? clampAge(body.age) : 3;
+
+// Narration of earlier pages in a picture book; only the most recent pages
+// are kept so long books don't blow up the prompt
+const MAX_PREVIOUS_PAGES = 12;
+const readPreviousPages = (body: any): string[] => {
+  const pages = body?.previousPages;
+  if (pages === undefined) return [];
+  if (!Array.isArray(pages) || pages.some(page => typeof page !== 'string')) {
+    throw new HttpError(400, 'Invalid "previousPages"');
+  }
+  return pages.slice(-MAX_PREVIOUS_PAGES);
+};
+
+// Weekly activity logs carry some transcript; anything past this is dropped
+const MAX_SUMMARY_LOG_CHARS = 20_000;
+const readLog = (body: any): string => requireString(body, 'log').slice(0, MAX_SUMMARY_LOG_CHARS);
+
+const IMAGE_STYLES: ImageStyle[] = ['illustration', 'coloringPage'];
+const readImageStyle = (body: any): ImageStyle => {
+  if (body?.style === undefined) return 'illustration';
+  if (!IMAGE_STYLES.includes(body.style)) throw new HttpError(400, 'Invalid "style"');
+  return body.style;
+};
+
+const readImageDataUrl = (body: any, field: string) => {
+  const match = /^data:(image\/[\w.+-]+);base64,(.+)$/.exec(requireString(body, field));
+  if (!match) throw new HttpError(400, `Invalid "${field}"`);
+  return { mimeType: match[1], data: match[2] };
+};
+
+const routes: Record<string, (body: any) => Promise<unknown>> = {
+  '/api/flashcard': (body) => analyzeImageForKids(requireString(body, 'image'), readLanguagePair(body), readAge(body)),
+  '/api/story': (body) => generateStoryFromImage(requireString(body, 'image'), readLanguagePair(body), readAge(body), readPreviousPages(body)),
+  '/api/speech': async (body) => ({ audio: await generateSpeech(requireString(body, 'text'), readLanguage(body.language, DEFAULT_LANGUAGE_PAIR.target)) }),
+  '/api/image': async (body) => ({ url: await generateKidImage(requireString(body, 'prompt'), readImageStyle(body)) }),
+  '/api/image/edit': async (body) => ({ url: await editKidImage(readImageDataUrl(body, 'image'), requireString(body, 'instruction')) }),
+  '/api/summary': async (body) => ({ summary: await summarizeWeek(readLog(body), readLanguagePair(body), readAge(body)) }),
+};
+
+const server = http.createServer(async (req, res) => {
+  const started = Date.now();
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  const address = getClientAddress(req);
+  const deviceId = getDeviceId(req);
+  let status = 200;
+  let note: string | undefined;
+
+  try {
+    const handler = routes[path];
+    if (!handler || req.method !== 'POST') throw new HttpError(404, 'Not found');
+    if (!limiter.take(address)) throw new HttpError(429, 'Too many requests');
+
+    const result = await handler(await readJson(req));
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(result));
+  } catch (error) {
+    const blocked = error instanceof ContentBlockedError;
+    status = error instanceof HttpError ? error.status : blocked ? 422 : 500;
+    note = error instanceof Error ? error.message : String(error);
+    if (status === 500) console.error(error);
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(blocked
+      ? { error: 'Content blocked', blocked: true }
+      : { error: status === 500 ? 'Upstream request failed' : note }));
+  } finally {
+    logRequest({ method: req.method || '?', path, address, deviceId, status, durationMs: Date.now() - started, note });
+  }
+});
+
+const wss = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (req, socket, head) => {
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  const address = getClientAddress(req);
+  const deviceId = getDeviceId(req);
+  const active = liveSessionsByClient.get(address) || 0;
+
+  const reject = (status: number, message: string) => {
+    socket.end(`HTTP/1.1 ${status} ${message}\r\n\r\n`);
+    logRequest({ method: 'WS', path, address, deviceId, status, durationMs: 0, note: message });
+  };
+
+  if (path !== '/api/live') return reject(404, 'Not Found');
+  if (!limiter.take(address)) return reject(429, 'Too Many Requests');
+  if (active >= config.maxLiveSessionsPerClient) return reject(429, 'Too Many Live Sessions');
+
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    const started = Date.now();
+    liveSessionsByClient.set(address, active + 1);
+    logRequest({ method: 'WS', path, address, deviceId, status: 101, durationMs: 0, note: 'live session opened' });
+
+    relayLiveSession(ws, () => {
+      const remaining = (liveSessionsByClient.get(address) || 1) - 1;
+      if (remaining > 0) liveSessionsByClient.set(address, remaining);
+      else liveSessionsByClient.delete(address);
+      logRequest({ method: 'WS', path, address, deviceId, status: 101, durationMs: Date.now() - started, note: 'live session closed' });
+    });
+  });
+});
+
+if (!config.apiKey) {
+  console.warn("GEMINI_API_KEY is not set - upstream calls will fail");
+}
+
+server.listen(config.port, () => {
+  console.log(`Kid's Lingo API proxy listening on http://localhost:${config.port}`);
+});
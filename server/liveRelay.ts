@@ -0,0 +1,90 @@
+import { WebSocket } from 'ws';
+import { Modality, Session } from "@google/genai";
+import { LiveRelayClientMessage, LiveRelayServerMessage } from "../types";
+import { getAiClient } from "./gemini";
+import { SAFETY_SETTINGS } from "./safety";
+
+// Relays one browser WebSocket to one Gemini live session.
+// The browser only chooses the system instruction and tools; the model,
+// voice and API key are fixed here.
+export const relayLiveSession = (ws: WebSocket, onClose: () => void) => {
+  let session: Session | null = null;
+  let closed = false;
+
+  const send = (msg: LiveRelayServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  };
+
+  const close = (reason?: string) => {
+    if (closed) return;
+    closed = true;
+    session?.close();
+    send({ type: 'close', reason });
+    ws.close();
+    onClose();
+  };
+
+  ws.on('message', async (raw) => {
+    let msg: LiveRelayClientMessage;
+    try {
+      msg = JSON.parse(raw.toString());
+    } catch {
+      send({ type: 'error', message: 'Invalid message' });
+      return;
+    }
+
+    if (msg.type === 'setup') {
+      if (session) return;
+      try {
+        session = await getAiClient().live.connect({
+          model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+          config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
+            },
+            systemInstruction: msg.setup.systemInstruction,
+            tools: msg.setup.tools,
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+            safetySettings: SAFETY_SETTINGS
+          },
+          callbacks: {
+            onopen: () => send({ type: 'open' }),
+            onmessage: (message) => send({ type: 'message', message }),
+            onerror: (e) => {
+              console.error("Live upstream error", e);
+              send({ type: 'error', message: 'Upstream error' });
+            },
+            onclose: () => close('upstream closed')
+          }
+        });
+        if (closed) session.close();
+      } catch (e) {
+        console.error("Live connect failed", e);
+        send({ type: 'error', message: 'Could not start live session' });
+        close('connect failed');
+      }
+      return;
+    }
+
+    if (!session) return;
+    switch (msg.type) {
+      case 'realtimeInput':
+        if (msg.media) session.sendRealtimeInput({ media: msg.media });
+        // Client-side VAD stops streaming during silence; tell the model the
+        // utterance is over so it doesn't wait for more audio
+        if (msg.audioStreamEnd) session.sendRealtimeInput({ audioStreamEnd: true });
+        break;
+      case 'clientContent':
+        session.sendClientContent({ turns: msg.turns, turnComplete: msg.turnComplete });
+        break;
+      case 'toolResponse':
+        session.sendToolResponse({ functionResponses: msg.functionResponses });
+        break;
+    }
+  });
+
+  ws.on('close', () => close('client closed'));
+  ws.on('error', () => close('client error'));
+};
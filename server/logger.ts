@@ -0,0 +1,15 @@
+// Minimal request logger: one line per request on stdout.
+
+export const logRequest = (entry: {
+  method: string;
+  path: string;
+  address: string;
+  deviceId: string;
+  status: number;
+  durationMs: number;
+  note?: string;
+}) => {
+  const time = new Date().toISOString();
+  const note = entry.note ? ` (${entry.note})` : '';
+  console.log(`${time} ${entry.method} ${entry.path} client=${entry.address} device=${entry.deviceId} ${entry.status} ${entry.durationMs}ms${note}`);
+};
@@ -0,0 +1,30 @@
+import { config } from './config';
+
+// Fixed-window rate limiter keyed by client address.
+export class RateLimiter {
+  private windows = new Map<string, { start: number; count: number }>();
+
+  constructor(
+    private limit = config.rateLimitPerWindow,
+    private windowMs = config.rateLimitWindowMs
+  ) {}
+
+  // Returns true when the request is allowed and records it
+  take(key: string, now = Date.now()): boolean {
+    const window = this.windows.get(key);
+    if (!window || now - window.start >= this.windowMs) {
+      this.windows.set(key, { start: now, count: 1 });
+      return true;
+    }
+    if (window.count >= this.limit) return false;
+    window.count++;
+    return true;
+  }
+
+  // Drops expired windows so the map doesn't grow forever
+  prune(now = Date.now()) {
+    this.windows.forEach((window, key) => {
+      if (now - window.start >= this.windowMs) this.windows.delete(key);
+    });
+  }
+}
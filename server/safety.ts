@@ -0,0 +1,40 @@
+import { FinishReason, GenerateContentResponse, HarmBlockThreshold, HarmCategory, SafetyFilterLevel, SafetySetting } from "@google/genai";
+
+// --- Content Safety ---
+// Every model call asks for the strictest blocking instead of relying on
+// "safe for children" in the prompt. A refused or filtered answer becomes
+// a ContentBlockedError, which the routes turn into a 422 the app answers
+// with a kid-friendly fallback.
+
+export const SAFETY_SETTINGS: SafetySetting[] = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+].map(category => ({ category, threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE }));
+
+// Imagen only takes a filter level, not per-category settings
+export const IMAGE_SAFETY_FILTER_LEVEL = SafetyFilterLevel.BLOCK_LOW_AND_ABOVE;
+
+export class ContentBlockedError extends Error {
+  constructor(public reason: string) {
+    super(`Content blocked (${reason})`);
+  }
+}
+
+const BLOCKING_FINISH_REASONS = new Set<FinishReason>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+]);
+
+// Throws when the prompt was refused or the answer was cut off for safety
+export const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new ContentBlockedError(blockReason);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.has(finishReason)) throw new ContentBlockedError(finishReason);
+};
@@ -0,0 +1,23 @@
+import React, { createContext, useContext } from 'react';
+import { AiProvider } from './aiProvider';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+
+// Picks the backend from AI_PROVIDER ("gemini" | "mock"), defaulting to
+// Gemini through the API proxy.
+export const getDefaultProvider = (): AiProvider =>
+  process.env.AI_PROVIDER === 'mock' ? mockProvider : geminiProvider;
+
+const AiProviderContext = createContext<AiProvider>(geminiProvider);
+
+interface AiProviderProps {
+  provider?: AiProvider;
+  children: React.ReactNode;
+}
+
+export const AiProviderProvider: React.FC<AiProviderProps> = ({ provider, children }) => {
+  const value = provider ?? getDefaultProvider();
+  return <AiProviderContext.Provider value={value}>{children}</AiProviderContext.Provider>;
+};
+
+export const useAiProvider = () => useContext(AiProviderContext);
@@ -0,0 +1,160 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { ScreenTimeRules } from '../types';
+import { LockReason, NO_LIMITS, lockReason, usedTodayMs } from './screenTime';
+import { useProfiles } from './ProfileContext';
+
+// Screen-time rules per child and the parent PIN guarding them, remembered
+// on this device. Only a hash of the PIN is stored.
+
+const STORAGE_KEY = 'kidslingo.parentalControls';
+// Screen time is written every 15 s, so checking more often gains nothing
+const CHECK_INTERVAL_MS = 15_000;
+// Wrong PINs or recovery answers allowed before a wait, which then doubles
+// with every further miss
+const FREE_ATTEMPTS = 3;
+const LOCKOUT_BASE_MS = 30_000;
+const LOCKOUT_MAX_MS = 60 * 60_000;
+
+interface StoredControls {
+  pinHash: string | null;
+  rules: Record<string, ScreenTimeRules>;
+  // Misses since the last right answer, and when the next try is allowed;
+  // kept with the rest so a reload doesn't reset them
+  failures: number;
+  lockedUntil: number;
+}
+
+const isMinutes = (value: any) => value === null || (typeof value === 'number' && value > 0);
+const isTime = (value: any) => typeof value === 'string' && /^\d{2}:\d{2}$/.test(value);
+
+const isRules = (value: any): value is ScreenTimeRules =>
+  isMinutes(value?.dailyMinutes)
+  && (value.quietHours === null || (isTime(value.quietHours?.start) && isTime(value.quietHours.end)));
+
+const loadControls = (): StoredControls => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    const rules: Record<string, ScreenTimeRules> = {};
+    for (const [profileId, value] of Object.entries(stored?.rules ?? {})) {
+      if (isRules(value)) rules[profileId] = value;
+    }
+    return {
+      pinHash: typeof stored?.pinHash === 'string' ? stored.pinHash : null,
+      rules,
+      failures: Number.isInteger(stored?.failures) ? stored.failures : 0,
+      lockedUntil: typeof stored?.lockedUntil === 'number' ? stored.lockedUntil : 0,
+    };
+  } catch {
+    // Corrupt value - start without limits
+    return { pinHash: null, rules: {}, failures: 0, lockedUntil: 0 };
+  }
+};
+
+const hashPin = async (pin: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`kidslingo:${pin}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+interface ParentalControlsContextValue {
+  hasPin: boolean;
+  setPin: (pin: string) => Promise<void>;
+  checkPin: (pin: string) => Promise<boolean>;
+  rulesFor: (profileId: string) => ScreenTimeRules;
+  saveRules: (profileId: string, rules: ScreenTimeRules) => void;
+  deleteRules: (profileId: string) => void;
+  // When a wrong PIN or recovery answer may next be tried (0 when it may now)
+  lockedUntil: number;
+  recordFailure: () => void;
+  clearFailures: () => void;
+}
+
+const ParentalControlsContext = createContext<ParentalControlsContextValue | null>(null);
+
+export const ParentalControlsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [state, setState] = useState<StoredControls>(loadControls);
+
+  const update = (next: StoredControls) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    setState(next);
+  };
+
+  const value: ParentalControlsContextValue = {
+    hasPin: state.pinHash !== null,
+    setPin: async (pin) => update({ ...state, pinHash: await hashPin(pin) }),
+    checkPin: async (pin) => state.pinHash !== null && (await hashPin(pin)) === state.pinHash,
+    rulesFor: (profileId) => state.rules[profileId] ?? NO_LIMITS,
+    saveRules: (profileId, rules) => update({ ...state, rules: { ...state.rules, [profileId]: rules } }),
+    deleteRules: (profileId) => {
+      const { [profileId]: _, ...rules } = state.rules;
+      update({ ...state, rules });
+    },
+    lockedUntil: state.lockedUntil,
+    recordFailure: () => {
+      const failures = state.failures + 1;
+      const over = failures - FREE_ATTEMPTS;
+      const lockedUntil = over > 0 ? Date.now() + Math.min(LOCKOUT_BASE_MS * 2 ** (over - 1), LOCKOUT_MAX_MS) : 0;
+      update({ ...state, failures, lockedUntil });
+    },
+    clearFailures: () => {
+      if (state.failures) update({ ...state, failures: 0, lockedUntil: 0 });
+    },
+  };
+
+  return <ParentalControlsContext.Provider value={value}>{children}</ParentalControlsContext.Provider>;
+};
+
+export const useParentalControls = () => {
+  const context = useContext(ParentalControlsContext);
+  if (!context) throw new Error("useParentalControls must be used inside ParentalControlsProvider");
+  return context;
+};
+
+// Seconds until the next PIN or recovery try is allowed, counting down
+export const useLockoutSeconds = (): number => {
+  const { lockedUntil } = useParentalControls();
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (lockedUntil <= Date.now()) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  return Math.max(0, Math.ceil((lockedUntil - now) / 1000));
+};
+
+// Whether the active child has to stop playing. 'checking' until the first
+// look at today's screen time, so nothing starts only to be cut off.
+export const useScreenTimeLock = (): LockReason | 'checking' | null => {
+  const { activeProfile } = useProfiles();
+  const { rulesFor } = useParentalControls();
+  const rules = rulesFor(activeProfile.id);
+  const [reason, setReason] = useState<LockReason | 'checking' | null>('checking');
+
+  useEffect(() => {
+    let cancelled = false;
+    const check = async () => {
+      const now = Date.now();
+      const used = rules.dailyMinutes === null ? 0 : await usedTodayMs(activeProfile.id, now);
+      if (!cancelled) setReason(lockReason(rules, used, now));
+    };
+    const checkSafely = () => check().catch(err => {
+      console.error("Checking screen time failed", err);
+      // A broken store shouldn't lock the child out
+      if (!cancelled) setReason(prev => (prev === 'checking' ? null : prev));
+    });
+
+    checkSafely();
+    const timer = setInterval(checkSafely, CHECK_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [activeProfile.id, rules.dailyMinutes, rules.quietHours?.start, rules.quietHours?.end]);
+
+  return reason;
+};
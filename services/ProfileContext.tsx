@@ -0,0 +1,103 @@
+import React, { createContext, useContext, useState } from 'react';
+import { ChildProfile, LanguagePair } from '../types';
+import { DEFAULT_LANGUAGE_PAIR, isLanguageCode } from '../languages';
+import { clampAge } from '../difficulty';
+
+// Child profiles, remembered on this device. The active child's age and
+// target language drive every prompt in the app.
+
+const STORAGE_KEY = 'kidslingo.profiles';
+
+export const PROFILE_AVATARS = ['🐰', '🐻', '🐼', '🦊', '🐯', '🐸', '🐵', '🦄'];
+
+interface StoredProfiles {
+  profiles: ChildProfile[];
+  activeId: string;
+}
+
+const createDefaultProfile = (): ChildProfile => ({
+  id: crypto.randomUUID(),
+  name: '宝贝',
+  avatar: PROFILE_AVATARS[0],
+  age: 3,
+  targetLanguage: DEFAULT_LANGUAGE_PAIR.target,
+});
+
+const isProfile = (value: any): value is ChildProfile =>
+  typeof value?.id === 'string'
+  && typeof value.name === 'string'
+  && typeof value.avatar === 'string'
+  && typeof value.age === 'number'
+  && isLanguageCode(value.targetLanguage);
+
+const loadProfiles = (): StoredProfiles => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    const profiles = Array.isArray(stored?.profiles) ? stored.profiles.filter(isProfile) : [];
+    if (profiles.length > 0) {
+      const activeId = profiles.some((p: ChildProfile) => p.id === stored.activeId) ? stored.activeId : profiles[0].id;
+      return { profiles, activeId };
+    }
+  } catch {
+    // Corrupt value - start over with a default profile
+  }
+  const profile = createDefaultProfile();
+  return { profiles: [profile], activeId: profile.id };
+};
+
+interface ProfileContextValue {
+  profiles: ChildProfile[];
+  activeProfile: ChildProfile;
+  setActiveProfile: (id: string) => void;
+  // Adds the profile, or updates it if the id already exists
+  saveProfile: (profile: ChildProfile) => void;
+  deleteProfile: (id: string) => void;
+}
+
+const ProfileContext = createContext<ProfileContextValue | null>(null);
+
+export const ProfileProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [state, setState] = useState<StoredProfiles>(loadProfiles);
+
+  const update = (next: StoredProfiles) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    setState(next);
+  };
+
+  const activeProfile = state.profiles.find(p => p.id === state.activeId) || state.profiles[0];
+
+  const value: ProfileContextValue = {
+    profiles: state.profiles,
+    activeProfile,
+    setActiveProfile: (id) => update({ ...state, activeId: id }),
+    saveProfile: (profile) => {
+      const normalized = { ...profile, age: clampAge(profile.age), name: profile.name.trim() || '宝贝' };
+      const exists = state.profiles.some(p => p.id === profile.id);
+      const profiles = exists
+        ? state.profiles.map(p => (p.id === profile.id ? normalized : p))
+        : [...state.profiles, normalized];
+      // A new child starts playing right away; editing a sibling doesn't switch to them
+      update({ profiles, activeId: exists ? state.activeId : normalized.id });
+    },
+    deleteProfile: (id) => {
+      // Always keep at least one profile
+      if (state.profiles.length <= 1) return;
+      const profiles = state.profiles.filter(p => p.id !== id);
+      update({ profiles, activeId: state.activeId === id ? profiles[0].id : state.activeId });
+    },
+  };
+
+  return <ProfileContext.Provider value={value}>{children}</ProfileContext.Provider>;
+};
+
+export const useProfiles = () => {
+  const context = useContext(ProfileContext);
+  if (!context) throw new Error("useProfiles must be used inside ProfileProvider");
+  return context;
+};
+
+// The active child's language pair
+export const useLanguages = (): { languages: LanguagePair } => {
+  const { activeProfile } = useProfiles();
+  return { languages: { native: DEFAULT_LANGUAGE_PAIR.native, target: activeProfile.targetLanguage } };
+};
@@ -0,0 +1,53 @@
+import { Tool } from "@google/genai";
+import { FlashCardData, ImageStyle, LanguageCode, LanguagePair, StoryResult } from "../types";
+
+// --- Provider Abstraction ---
+// Every AI capability the app uses goes through this interface so that
+// components never talk to a specific backend directly.
+
+export interface LiveSessionOptions {
+    systemInstruction: string;
+    tools?: Tool[];
+    onToolCall?: (name: string, args: any) => Promise<any>;
+    // Reports automatic reconnects after the connection drops
+    onConnectionStateChange?: (state: 'connected' | 'reconnecting') => void;
+    // Extra context (e.g. the current scene) replayed to the model on reconnect
+    getResumeContext?: () => string;
+    // Client-side voice activity detection (0 = loud speech only .. 1 = very quiet voices),
+    // set from the child's age (see sensitivityForAge)
+    vadSensitivity?: number;
+    onUserSpeechStart?: () => void;
+    onUserSpeechEnd?: () => void;
+}
+
+export interface LiveSession {
+    connect(options: LiveSessionOptions): Promise<void>;
+    disconnect(): void;
+    setListening(isListening: boolean): void;
+    sendText(text: string): void;
+    sendImage(base64Data: string): void;
+}
+
+export type LiveSessionFactory = (
+    onAiSpeaking: (speaking: boolean) => void,
+    onError: (msg: string) => void,
+    onTranscription?: (userText: string, aiText: string, isFinal: boolean) => void
+) => LiveSession;
+
+export interface AiProvider {
+  name: string;
+  // `age` (years) sets vocabulary and sentence length
+  analyzeImageForKids: (base64Image: string, languages: LanguagePair, age: number) => Promise<FlashCardData>;
+  // `language` picks a voice that sounds natural for the text
+  generateSpeech: (text: string, language: LanguageCode) => Promise<AudioBuffer | null>;
+  generateKidImage: (prompt: string, style?: ImageStyle) => Promise<string>;
+  // Changes `image` (a data URL from generateKidImage or an earlier edit) as
+  // `instruction` says, keeping the rest of the picture as it was
+  editKidImage: (image: string, instruction: string) => Promise<string>;
+  // previousPages: narration of the earlier pages of the same book, oldest first
+  generateStoryFromImage: (base64Image: string, languages: LanguagePair, age: number, previousPages?: string[]) => Promise<StoryResult>;
+  // Short report for the parent, in their language, from the week's
+  // activity log (see progressReport.ts)
+  summarizeWeek: (log: string, languages: LanguagePair, age: number) => Promise<string>;
+  createLiveSession: LiveSessionFactory;
+}
@@ -0,0 +1,162 @@
+import { Artwork } from "../types";
+import { downloadBlob, fileDate } from "./download";
+
+// --- Artwork Export ---
+// PNG downloads and a printable PDF picture book, built in the browser.
+// Each PDF page is drawn on a canvas first (picture, words, date) and
+// embedded as a JPEG, so any script and emoji print without PDF fonts.
+
+// A4 in PDF points, and the canvas size pages are drawn at (150 dpi)
+const PAGE_WIDTH_PT = 595;
+const PAGE_HEIGHT_PT = 842;
+const PAGE_WIDTH_PX = 1240;
+const PAGE_HEIGHT_PX = 1754;
+const PAGE_MARGIN_PX = 100;
+const JPEG_QUALITY = 0.9;
+const FONT = '"PingFang SC", "Noto Sans CJK SC", "Microsoft YaHei", sans-serif';
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Image failed to load"));
+    img.src = src;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Canvas export failed")), type, quality);
+  });
+
+
+export const downloadArtworkPng = async (artwork: Artwork) => {
+  const img = await loadImage(artwork.image);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth || 1024;
+  canvas.height = img.naturalHeight || 1024;
+  canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  downloadBlob(await canvasToBlob(canvas, 'image/png'), `magic-drawing-${fileDate(artwork.createdAt)}.png`);
+};
+
+// --- Page Layout ---
+
+const newPage = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE_WIDTH_PX;
+  canvas.height = PAGE_HEIGHT_PX;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  return { canvas, ctx };
+};
+
+const drawCoverPage = (title: string, subtitle: string) => {
+  const page = newPage();
+  const { ctx } = page;
+  ctx.fillStyle = '#7C3AED';
+  ctx.font = `bold 96px ${FONT}`;
+  ctx.fillText(title, PAGE_WIDTH_PX / 2, PAGE_HEIGHT_PX * 0.35);
+  ctx.fillStyle = '#6B7280';
+  ctx.font = `48px ${FONT}`;
+  ctx.fillText(subtitle, PAGE_WIDTH_PX / 2, PAGE_HEIGHT_PX * 0.35 + 160);
+  ctx.font = `160px ${FONT}`;
+  ctx.fillText('🎨', PAGE_WIDTH_PX / 2, PAGE_HEIGHT_PX * 0.55);
+  return page.canvas;
+};
+
+const drawArtworkPage = async (artwork: Artwork) => {
+  const page = newPage();
+  const { ctx } = page;
+  const size = PAGE_WIDTH_PX - PAGE_MARGIN_PX * 2;
+  ctx.drawImage(await loadImage(artwork.image), PAGE_MARGIN_PX, PAGE_MARGIN_PX, size, size);
+
+  let y = PAGE_MARGIN_PX + size + 60;
+  ctx.fillStyle = '#9CA3AF';
+  ctx.font = `36px ${FONT}`;
+  ctx.fillText(new Date(artwork.createdAt).toLocaleDateString(), PAGE_WIDTH_PX / 2, y);
+  y += 80;
+
+  // Two words per line; fillText squeezes a line that is too wide
+  ctx.fillStyle = '#4C1D95';
+  ctx.font = `bold 52px ${FONT}`;
+  for (let i = 0; i < artwork.words.length && y < PAGE_HEIGHT_PX - PAGE_MARGIN_PX; i += 2) {
+    const line = artwork.words.slice(i, i + 2)
+      .map(word => `${word.emoji} ${word.targetWord}${word.nativeWord ? ` (${word.nativeWord})` : ''}`)
+      .join('      ');
+    ctx.fillText(line, PAGE_WIDTH_PX / 2, y, PAGE_WIDTH_PX - PAGE_MARGIN_PX * 2);
+    y += 80;
+  }
+  return page.canvas;
+};
+
+// --- PDF Writer ---
+// Just enough PDF for full-page JPEG images: catalog, page tree, and per
+// page a page object, its content stream and its image.
+
+const buildPdf = (pages: { jpeg: Uint8Array; width: number; height: number }[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // The binary comment tells tools the file isn't plain text
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+  startObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const content = `q ${PAGE_WIDTH_PT} 0 0 ${PAGE_HEIGHT_PT} 0 0 cm /Im0 Do Q`;
+
+    startObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH_PT} ${PAGE_HEIGHT_PT}] /Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`);
+    startObject(pageId + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    startObject(pageId + 2);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  const count = offsets.length;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
+
+const toPdfPage = async (canvas: HTMLCanvasElement) => {
+  const blob = await canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY);
+  return { jpeg: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+};
+
+// Oldest picture first, after a cover page. Pages are encoded one at a
+// time so only one full-size canvas is alive at once.
+export const exportPictureBookPdf = async (artworks: Artwork[], title: string, author: string) => {
+  const pages = [await toPdfPage(drawCoverPage(title, author))];
+  for (const artwork of [...artworks].sort((a, b) => a.createdAt - b.createdAt)) {
+    pages.push(await toPdfPage(await drawArtworkPage(artwork)));
+  }
+  downloadBlob(buildPdf(pages), `${title}.pdf`);
+};
@@ -0,0 +1,208 @@
+import { rmsLevel } from "./voiceActivity";
+
+// --- Microphone Capture ---
+// Turns a mic stream into base64 PCM16 chunks at the rate the live model
+// expects. The preferred path runs in an AudioWorklet, so resampling, PCM
+// conversion and base64 encoding all happen off the main thread. Browsers
+// without worklet support fall back to a ScriptProcessorNode.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// ~128ms of audio per chunk at 16kHz
+const CHUNK_SAMPLES = 2048;
+
+export interface CapturedChunk {
+    // base64 PCM16
+    data: string;
+    // RMS level of the chunk (0..1), used for voice activity detection
+    level: number;
+    durationMs: number;
+}
+
+export interface MicCapture {
+    // Rate of the PCM actually produced
+    sampleRate: number;
+    stop: () => void;
+}
+
+// Source of the worklet module. Kept as a string so it can be loaded from a
+// Blob URL without extra bundler configuration.
+const WORKLET_SOURCE = `
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// btoa is not available in AudioWorkletGlobalScope
+function encodeBase64(bytes) {
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += BASE64_CHARS[(n >> 18) & 63] + BASE64_CHARS[(n >> 12) & 63] + BASE64_CHARS[(n >> 6) & 63] + BASE64_CHARS[n & 63];
+  }
+  const rest = bytes.length - i;
+  if (rest === 1) {
+    const n = bytes[i] << 16;
+    out += BASE64_CHARS[(n >> 18) & 63] + BASE64_CHARS[(n >> 12) & 63] + '==';
+  } else if (rest === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    out += BASE64_CHARS[(n >> 18) & 63] + BASE64_CHARS[(n >> 12) & 63] + BASE64_CHARS[(n >> 6) & 63] + '=';
+  }
+  return out;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSamples } = options.processorOptions;
+    // Input samples per output sample; devices often ignore the 16kHz
+    // context request and run at 44.1/48kHz.
+    this.ratio = sampleRate / targetSampleRate;
+    this.chunk = new Int16Array(chunkSamples);
+    this.chunkLength = 0;
+    this.chunkEnergy = 0;
+    // Box-filter resampler state
+    this.inputPosition = 0;
+    this.nextBoundary = this.ratio;
+    this.sum = 0;
+    this.count = 0;
+    this.lastValue = 0;
+  }
+
+  emit(value) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.chunk[this.chunkLength++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    this.chunkEnergy += s * s;
+    if (this.chunkLength === this.chunk.length) {
+      this.port.postMessage({
+        data: encodeBase64(new Uint8Array(this.chunk.buffer)),
+        level: Math.sqrt(this.chunkEnergy / this.chunkLength),
+      });
+      this.chunkLength = 0;
+      this.chunkEnergy = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      this.sum += channel[i];
+      this.count++;
+      this.inputPosition++;
+      // Average every input sample that falls into one output sample
+      while (this.inputPosition >= this.nextBoundary) {
+        if (this.count > 0) this.lastValue = this.sum / this.count;
+        this.emit(this.lastValue);
+        this.sum = 0;
+        this.count = 0;
+        this.nextBoundary += this.ratio;
+      }
+    }
+
+    // Keep the counters small so floating point error doesn't build up
+    if (this.inputPosition > 1e6) {
+      this.inputPosition -= 1e6;
+      this.nextBoundary -= 1e6;
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+const getWorkletUrl = () => {
+    if (!workletUrl) {
+        workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    }
+    return workletUrl;
+};
+
+const startWorkletCapture = async (
+    ctx: AudioContext,
+    source: MediaStreamAudioSourceNode,
+    onChunk: (chunk: CapturedChunk) => void
+): Promise<MicCapture> => {
+    await ctx.audioWorklet.addModule(getWorkletUrl());
+    const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        processorOptions: { targetSampleRate: CAPTURE_SAMPLE_RATE, chunkSamples: CHUNK_SAMPLES },
+    });
+    const durationMs = (CHUNK_SAMPLES / CAPTURE_SAMPLE_RATE) * 1000;
+    node.port.onmessage = (e) => onChunk({ data: e.data.data, level: e.data.level, durationMs });
+    source.connect(node);
+
+    return {
+        sampleRate: CAPTURE_SAMPLE_RATE,
+        stop: () => {
+            node.port.onmessage = null;
+            source.disconnect();
+            node.disconnect();
+        }
+    };
+};
+
+// Legacy path: everything runs on the main thread
+const floatTo16BitPCM = (input: Float32Array) => {
+    const output = new Int16Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+        const s = Math.max(-1, Math.min(1, input[i]));
+        output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    }
+    return output;
+};
+
+const arrayBufferToBase64 = (buffer: Uint8Array): string => {
+    let binary = '';
+    const len = buffer.byteLength;
+    for (let i = 0; i < len; i++) {
+        binary += String.fromCharCode(buffer[i]);
+    }
+    return btoa(binary);
+};
+
+const startScriptProcessorCapture = (
+    ctx: AudioContext,
+    source: MediaStreamAudioSourceNode,
+    onChunk: (chunk: CapturedChunk) => void
+): MicCapture => {
+    const processor = ctx.createScriptProcessor(4096, 1, 1);
+    processor.onaudioprocess = (e) => {
+        const inputData = e.inputBuffer.getChannelData(0);
+        const pcm16 = floatTo16BitPCM(inputData);
+        onChunk({
+            data: arrayBufferToBase64(new Uint8Array(pcm16.buffer)),
+            level: rmsLevel(inputData),
+            durationMs: (inputData.length / ctx.sampleRate) * 1000,
+        });
+    };
+    source.connect(processor);
+    processor.connect(ctx.destination);
+
+    return {
+        sampleRate: ctx.sampleRate,
+        stop: () => {
+            processor.onaudioprocess = null;
+            source.disconnect();
+            processor.disconnect();
+        }
+    };
+};
+
+export const startMicCapture = async (
+    ctx: AudioContext,
+    stream: MediaStream,
+    onChunk: (chunk: CapturedChunk) => void
+): Promise<MicCapture> => {
+    const source = ctx.createMediaStreamSource(stream);
+    if (ctx.audioWorklet && typeof AudioWorkletNode !== 'undefined') {
+        try {
+            return await startWorkletCapture(ctx, source, onChunk);
+        } catch (error) {
+            console.warn("AudioWorklet capture unavailable, falling back to ScriptProcessor", error);
+        }
+    }
+    return startScriptProcessorCapture(ctx, source, onChunk);
+};
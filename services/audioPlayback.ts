@@ -0,0 +1,180 @@
+// --- Audio Playback ---
+// One AudioContext for everything the app plays. Clips never pile up on
+// top of each other: spoken words and stories cut off what came before,
+// while little extras (intros, the paint bucket) wait their turn behind
+// them. Gemi's live voice has its own bus and ducks everything else
+// while it talks. Volume is app-wide and remembered on the device.
+
+export type PlaybackPriority = 'effect' | 'speech';
+
+// A clip stops anything of equal or lower rank and waits for higher ones
+const PRIORITY_RANK: Record<PlaybackPriority, number> = { effect: 0, speech: 1 };
+
+const VOLUME_KEY = 'kidslingo.volume';
+const DEFAULT_VOLUME = 0.8;
+// Clip level while the live voice is talking
+const DUCKED_GAIN = 0.2;
+const DUCK_TIME_CONSTANT_S = 0.08;
+// Small lead so the first samples aren't clipped
+const START_LEAD_S = 0.02;
+
+export interface PlayOptions {
+  // 'speech' unless said otherwise
+  priority?: PlaybackPriority;
+  // Silence between the clips of a sequence
+  gapSeconds?: number;
+  // Called once, however the playback ends (finished, interrupted or stopped)
+  onEnded?: () => void;
+}
+
+export interface Playback {
+  // When each clip starts, on the shared context's clock
+  startTimes: number[];
+  endTime: number;
+  stop: () => void;
+}
+
+interface ActivePlayback {
+  priority: PlaybackPriority;
+  endTime: number;
+  stop: () => void;
+}
+
+const readVolume = () => {
+  const stored = parseFloat(localStorage.getItem(VOLUME_KEY) || '');
+  return Number.isFinite(stored) ? Math.min(1, Math.max(0, stored)) : DEFAULT_VOLUME;
+};
+
+class AudioPlaybackManager {
+    private ctx: AudioContext | null = null;
+    private master: GainNode | null = null;
+    private clipBus: GainNode | null = null;
+    private liveBus: GainNode | null = null;
+    private active = new Set<ActivePlayback>();
+    private volume = readVolume();
+    private volumeListeners = new Set<(volume: number) => void>();
+
+    // Created on first use; browsers only allow audio after a user gesture,
+    // which is also when the first sound is requested
+    get context(): AudioContext {
+        if (!this.ctx) {
+            const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+            this.master = ctx.createGain();
+            this.master.gain.value = this.volume;
+            this.master.connect(ctx.destination);
+            this.clipBus = ctx.createGain();
+            this.clipBus.connect(this.master);
+            this.liveBus = ctx.createGain();
+            this.liveBus.connect(this.master);
+            this.ctx = ctx;
+
+            document.addEventListener('visibilitychange', this.handleVisibilityChange);
+            window.addEventListener('pointerdown', this.resume);
+        }
+        return this.ctx;
+    }
+
+    // Where the live session connects its audio
+    get liveOutput(): AudioNode {
+        const ctx = this.context;
+        return this.liveBus ?? ctx.destination;
+    }
+
+    play(clips: AudioBuffer | AudioBuffer[], options: PlayOptions = {}): Playback {
+        const ctx = this.context;
+        this.resume();
+        const list = Array.isArray(clips) ? clips : [clips];
+        const priority = options.priority ?? 'speech';
+
+        let at = ctx.currentTime + START_LEAD_S;
+        for (const other of [...this.active]) {
+            if (PRIORITY_RANK[other.priority] > PRIORITY_RANK[priority]) {
+                at = Math.max(at, other.endTime);
+            } else {
+                other.stop();
+            }
+        }
+
+        const sources: AudioBufferSourceNode[] = [];
+        const startTimes: number[] = [];
+        list.forEach((clip, i) => {
+            const source = ctx.createBufferSource();
+            source.buffer = clip;
+            source.connect(this.clipBus!);
+            source.start(at);
+            sources.push(source);
+            startTimes.push(at);
+            at += clip.duration + (i < list.length - 1 ? options.gapSeconds ?? 0 : 0);
+        });
+
+        let done = false;
+        const entry: ActivePlayback = {
+            priority,
+            endTime: at,
+            stop: () => {
+                if (done) return;
+                done = true;
+                this.active.delete(entry);
+                sources.forEach(source => {
+                    source.onended = null;
+                    source.stop();
+                });
+                options.onEnded?.();
+            },
+        };
+        const last = sources[sources.length - 1];
+        if (last) {
+            last.onended = () => {
+                if (done) return;
+                done = true;
+                this.active.delete(entry);
+                options.onEnded?.();
+            };
+        }
+        this.active.add(entry);
+
+        return { startTimes, endTime: at, stop: entry.stop };
+    }
+
+    // Live voice keeps playing; everything else fades under it
+    setLiveSpeaking(speaking: boolean) {
+        if (!this.clipBus || !this.ctx) return;
+        this.clipBus.gain.setTargetAtTime(speaking ? DUCKED_GAIN : 1, this.ctx.currentTime, DUCK_TIME_CONSTANT_S);
+    }
+
+    // Clips only; the live session stops its own audio when it disconnects
+    stopAll() {
+        [...this.active].forEach(playback => playback.stop());
+    }
+
+    getVolume() {
+        return this.volume;
+    }
+
+    setVolume(volume: number) {
+        this.volume = Math.min(1, Math.max(0, volume));
+        localStorage.setItem(VOLUME_KEY, String(this.volume));
+        if (this.master && this.ctx) this.master.gain.setTargetAtTime(this.volume, this.ctx.currentTime, 0.02);
+        this.volumeListeners.forEach(listener => listener(this.volume));
+    }
+
+    onVolumeChange(listener: (volume: number) => void) {
+        this.volumeListeners.add(listener);
+        return () => {
+            this.volumeListeners.delete(listener);
+        };
+    }
+
+    private resume = () => {
+        if (this.ctx?.state === 'suspended' && !document.hidden) this.ctx.resume();
+    };
+
+    // Nothing should keep talking from a backgrounded tab
+    private handleVisibilityChange = () => {
+        if (!this.ctx) return;
+        if (document.hidden) this.ctx.suspend();
+        else this.ctx.resume();
+    };
+}
+
+export const audioPlayback = new AudioPlaybackManager();
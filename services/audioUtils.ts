@@ -0,0 +1,23 @@
+import { StoredAudio } from "../types";
+
+// Converts between Web Audio buffers and the 16-bit PCM kept in IndexedDB
+// (half the size of the float samples, and what TTS produces anyway).
+
+export const audioBufferToPcm = (buffer: AudioBuffer): StoredAudio => {
+  const channel = buffer.getChannelData(0);
+  const samples = new Int16Array(channel.length);
+  for (let i = 0; i < channel.length; i++) {
+    const s = Math.max(-1, Math.min(1, channel[i]));
+    samples[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  return { sampleRate: buffer.sampleRate, samples };
+};
+
+export const pcmToAudioBuffer = (audio: StoredAudio): AudioBuffer => {
+  const buffer = new AudioBuffer({ numberOfChannels: 1, length: Math.max(audio.samples.length, 1), sampleRate: audio.sampleRate });
+  const channel = buffer.getChannelData(0);
+  for (let i = 0; i < audio.samples.length; i++) {
+    channel[i] = audio.samples[i] / 32768;
+  }
+  return buffer;
+};
@@ -0,0 +1,131 @@
+// --- Local Database (IndexedDB) ---
+// One database for everything the app keeps on the device. Each feature
+// gets its own object store; bump DB_VERSION when adding one.
+
+const DB_NAME = 'kidslingo';
+const DB_VERSION = 9;
+
+export const STORES = {
+  words: 'words',
+  reviews: 'reviews',
+  pronunciation: 'pronunciation',
+  books: 'books',
+  artworks: 'artworks',
+  sessions: 'sessions',
+  usage: 'usage',
+  safety: 'safety',
+  // TTS cache: audio and a small LRU record per entry, kept apart so
+  // bookkeeping never has to load the audio
+  speech: 'speech',
+  speechUsage: 'speechUsage',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.words)) {
+    const words = db.createObjectStore(STORES.words, { keyPath: 'id' });
+    words.createIndex('profileId', 'profileId');
+  }
+  if (!db.objectStoreNames.contains(STORES.reviews)) {
+    const reviews = db.createObjectStore(STORES.reviews, { keyPath: 'id' });
+    reviews.createIndex('profileId', 'profileId');
+  }
+  if (!db.objectStoreNames.contains(STORES.pronunciation)) {
+    const attempts = db.createObjectStore(STORES.pronunciation, { keyPath: 'id' });
+    attempts.createIndex('profileId', 'profileId');
+    attempts.createIndex('wordId', 'wordId');
+  }
+  if (!db.objectStoreNames.contains(STORES.books)) {
+    const books = db.createObjectStore(STORES.books, { keyPath: 'id' });
+    books.createIndex('profileId', 'profileId');
+  }
+  if (!db.objectStoreNames.contains(STORES.artworks)) {
+    const artworks = db.createObjectStore(STORES.artworks, { keyPath: 'id' });
+    artworks.createIndex('profileId', 'profileId');
+  }
+  if (!db.objectStoreNames.contains(STORES.sessions)) {
+    const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+    sessions.createIndex('profileId', 'profileId');
+  }
+  if (!db.objectStoreNames.contains(STORES.usage)) {
+    const usage = db.createObjectStore(STORES.usage, { keyPath: 'key' });
+    usage.createIndex('profileId', 'profileId');
+  }
+  if (!db.objectStoreNames.contains(STORES.safety)) {
+    const safety = db.createObjectStore(STORES.safety, { keyPath: 'id' });
+    safety.createIndex('profileId', 'profileId');
+  }
+  if (!db.objectStoreNames.contains(STORES.speech)) {
+    db.createObjectStore(STORES.speech, { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains(STORES.speechUsage)) {
+    db.createObjectStore(STORES.speechUsage, { keyPath: 'key' });
+  }
+};
+
+export const getDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const dbGet = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await getDb();
+  return promisify(db.transaction(store).objectStore(store).get(key));
+};
+
+export const dbGetAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await getDb();
+  return promisify(db.transaction(store).objectStore(store).getAll());
+};
+
+export const dbGetAllByIndex = async <T>(store: StoreName, index: string, key: IDBValidKey): Promise<T[]> => {
+  const db = await getDb();
+  return promisify(db.transaction(store).objectStore(store).index(index).getAll(key));
+};
+
+export const dbPut = async <T>(store: StoreName, value: T): Promise<void> => {
+  const db = await getDb();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const dbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await getDb();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const dbClear = async (store: StoreName): Promise<void> => {
+  const db = await getDb();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
+
+// Deletes every record whose `index` matches `key`, in one transaction
+export const dbDeleteByIndex = async (store: StoreName, index: string, key: IDBValidKey): Promise<void> => {
+  const db = await getDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    const request = objectStore.index(index).getAllKeys(key);
+    request.onsuccess = () => request.result.forEach(primaryKey => objectStore.delete(primaryKey));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
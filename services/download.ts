@@ -0,0 +1,15 @@
+// --- Downloads ---
+// Saves generated files (pictures, books, logs) to the device.
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // The click starts the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// YYYY-MM-DD, for file names
+export const fileDate = (time: number) => new Date(time).toISOString().slice(0, 10);
@@ -0,0 +1,69 @@
+// --- Flood Fill ---
+// Paint bucket for coloring pages. Dark pixels are outlines and always
+// stop the fill; other pixels join the region when they are close to the
+// tapped pixel's color, which absorbs JPEG noise and soft edges.
+
+// A pixel whose brightest channel is below this (0-255) is an outline;
+// saturated crayon colors like pure red stay fillable
+const OUTLINE_BRIGHTNESS = 100;
+// Largest per-channel difference still treated as the same region
+const COLOR_TOLERANCE = 48;
+
+export type Rgb = [number, number, number];
+
+export const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const isOutline = (r: number, g: number, b: number) => Math.max(r, g, b) < OUTLINE_BRIGHTNESS;
+
+// Fills in place; false when the tap was on an outline or the region
+// already has this color
+export const floodFill = (image: ImageData, x: number, y: number, color: Rgb): boolean => {
+  const { width, height, data } = image;
+  const px = Math.floor(x);
+  const py = Math.floor(y);
+  if (px < 0 || py < 0 || px >= width || py >= height) return false;
+
+  const start = (py * width + px) * 4;
+  const [sr, sg, sb] = [data[start], data[start + 1], data[start + 2]];
+  if (isOutline(sr, sg, sb)) return false;
+  if (sr === color[0] && sg === color[1] && sb === color[2]) return false;
+
+  const visited = new Uint8Array(width * height);
+  const matches = (i: number) => {
+    const p = i * 4;
+    const r = data[p], g = data[p + 1], b = data[p + 2];
+    return !isOutline(r, g, b)
+      && Math.abs(r - sr) <= COLOR_TOLERANCE
+      && Math.abs(g - sg) <= COLOR_TOLERANCE
+      && Math.abs(b - sb) <= COLOR_TOLERANCE;
+  };
+
+  // Scanline fill: paint a whole run of the row, then queue the rows above and below
+  const stack = [py * width + px];
+  while (stack.length) {
+    const i = stack.pop()!;
+    if (visited[i] || !matches(i)) continue;
+
+    const rowStart = i - (i % width);
+    const rowEnd = rowStart + width - 1;
+    let left = i;
+    while (left > rowStart && !visited[left - 1] && matches(left - 1)) left--;
+    let right = i;
+    while (right < rowEnd && !visited[right + 1] && matches(right + 1)) right++;
+
+    for (let j = left; j <= right; j++) {
+      visited[j] = 1;
+      const p = j * 4;
+      data[p] = color[0];
+      data[p + 1] = color[1];
+      data[p + 2] = color[2];
+      data[p + 3] = 255;
+      if (j >= width && !visited[j - width]) stack.push(j - width);
+      if (j < width * (height - 1) && !visited[j + width]) stack.push(j + width);
+    }
+  }
+  return true;
+};
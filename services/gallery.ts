@@ -0,0 +1,20 @@
+import { Artwork } from "../types";
+import { STORES, dbDelete, dbGetAllByIndex, dbPut } from "./db";
+
+// --- Artwork Gallery ---
+// Each magic-canvas session keeps one artwork, updated as the picture
+// changes, so the gallery always holds the last version the child saw.
+
+export const saveArtwork = async (artwork: Artwork): Promise<Artwork> => {
+  const saved = { ...artwork, updatedAt: Date.now() };
+  await dbPut(STORES.artworks, saved);
+  return saved;
+};
+
+// Newest first
+export const listArtworks = async (profileId: string): Promise<Artwork[]> => {
+  const artworks = await dbGetAllByIndex<Artwork>(STORES.artworks, 'profileId', profileId);
+  return artworks.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteArtwork = (id: string) => dbDelete(STORES.artworks, id);
@@ -1,83 +1,49 @@
-import { GoogleGenAI, Modality, Type, LiveServerMessage, FunctionDeclaration, Tool } from "@google/genai";
-import { FlashCardData } from "../types";
+import { LiveServerMessage } from "@google/genai";
+import { FlashCardData, ImageStyle, LanguageCode, LanguagePair, StoryResult } from "../types";
+import { AiProvider, LiveSession, LiveSessionOptions } from "./aiProvider";
+import { LiveRelayConnection, postJson } from "./proxyClient";
+import { CapturedChunk, startMicCapture } from "./audioCapture";
+import { VoiceActivityDetector } from "./voiceActivity";
+import { audioPlayback } from "./audioPlayback";
+import { preparePhoto } from "./privacy";
 
-const getAiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+// All Gemini calls go through the API proxy in server/, which holds the key.
 
 // --- 1. Photo Analysis (Vision) ---
-export const analyzeImageForKids = async (base64Image: string): Promise<FlashCardData> => {
-  const ai = getAiClient();
-  
-  const schema = {
-    type: Type.OBJECT,
-    properties: {
-      targetWord: { type: Type.STRING, description: "The main object in the image in English" },
-      nativeWord: { type: Type.STRING, description: "The main object in Chinese (Simplified)" },
-      pronunciation: { type: Type.STRING, description: "Phonetic pronunciation guide for the English word" },
-      simpleSentence: { type: Type.STRING, description: "A very simple, cute sentence in English about the object (max 6 words)" },
-      emoji: { type: Type.STRING, description: "A relevant emoji" }
-    },
-    required: ["targetWord", "nativeWord", "pronunciation", "simpleSentence", "emoji"]
-  };
-
-  const prompt = "Look at this image. Identify the single most prominent object. Generate a flashcard for a 3-year-old child to learn English.";
-
+export const analyzeImageForKids = async (base64Image: string, languages: LanguagePair, age: number): Promise<FlashCardData> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        systemInstruction: "You are a preschool teacher. Keep words extremely simple and safe for children."
-      }
-    });
-
-    if (response.text) {
-      return JSON.parse(response.text) as FlashCardData;
-    }
-    throw new Error("No data returned");
+    return await postJson<FlashCardData>('/api/flashcard', { image: base64Image, languages, age });
   } catch (error) {
     console.error("Analysis failed", error);
     throw error;
   }
 };
 
+// Converts raw 16-bit little-endian PCM into an AudioBuffer
+export const pcm16ToAudioBuffer = (bytes: Uint8Array, sampleRate = 24000): AudioBuffer => {
+  const dataInt16 = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  const buffer = new AudioBuffer({ numberOfChannels: 1, length: Math.max(dataInt16.length, 1), sampleRate });
+  const channelData = buffer.getChannelData(0);
+  for (let i = 0; i < dataInt16.length; i++) {
+    channelData[i] = dataInt16[i] / 32768.0;
+  }
+  return buffer;
+};
+
 // --- 2. Audio Generation (TTS) ---
-export const generateSpeech = async (text: string): Promise<AudioBuffer | null> => {
-  const ai = getAiClient();
+export const generateSpeech = async (text: string, language: LanguageCode): Promise<AudioBuffer | null> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Puck' },
-          },
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    
-    if (!base64Audio) return null;
+    const { audio } = await postJson<{ audio: string | null }>('/api/speech', { text, language });
+    if (!audio) return null;
 
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    
-    const binaryString = atob(base64Audio);
+    const binaryString = atob(audio);
     const len = binaryString.length;
     const bytes = new Uint8Array(len);
     for (let i = 0; i < len; i++) {
       bytes[i] = binaryString.charCodeAt(i);
     }
-    
-    return await audioContext.decodeAudioData(bytes.buffer);
+
+    return pcm16ToAudioBuffer(bytes);
 
   } catch (error) {
     console.error("TTS failed", error);
@@ -86,47 +52,61 @@ export const generateSpeech = async (text: string): Promise<AudioBuffer | null>
 };
 
 // --- 3. Image Generation (Imagen) ---
-export const generateKidImage = async (prompt: string): Promise<string> => {
-  const ai = getAiClient();
+export const generateKidImage = async (prompt: string, style: ImageStyle = 'illustration'): Promise<string> => {
   try {
-    const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001',
-      prompt: `A cute, colorful, cartoon style illustration for a children's book. ${prompt}`,
-      config: {
-        numberOfImages: 1,
-        outputMimeType: 'image/jpeg',
-        aspectRatio: '1:1',
-      },
-    });
-
-    const base64ImageBytes = response.generatedImages?.[0]?.image?.imageBytes;
-    if (base64ImageBytes) {
-      return `data:image/jpeg;base64,${base64ImageBytes}`;
-    }
-    throw new Error("No image generated");
+    const { url } = await postJson<{ url: string }>('/api/image', { prompt, style });
+    return url;
   } catch (error) {
     console.error("Image gen failed", error);
     throw error;
   }
 };
 
-// --- 4. Live Voice Chat (Realtime - Multi-purpose) ---
+export const editKidImage = async (image: string, instruction: string): Promise<string> => {
+  try {
+    const { url } = await postJson<{ url: string }>('/api/image/edit', { image, instruction });
+    return url;
+  } catch (error) {
+    console.error("Image edit failed", error);
+    throw error;
+  }
+};
 
-interface LiveSessionOptions {
-    systemInstruction: string;
-    tools?: Tool[];
-    onToolCall?: (name: string, args: any) => Promise<any>;
-}
+// --- 4. Live Voice Chat (Realtime - Multi-purpose) ---
 
-export class LiveVoiceSession {
-    private ai = getAiClient();
+const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// Condensed transcript replayed to the model after a reconnect
+const SUMMARY_MAX_LINES = 8;
+const SUMMARY_LINE_MAX_CHARS = 160;
+// Audio kept from just before speech is detected, so first syllables aren't cut
+const PRE_ROLL_CHUNKS = 3;
+// While Gemi talks the child must be clearly louder to interrupt it
+const BARGE_IN_STRICTNESS = 2;
+
+export class LiveVoiceSession implements LiveSession {
     private inputContext: AudioContext | null = null;
+    // The app-wide playback context (see audioPlayback.ts); not ours to close
     private outputContext: AudioContext | null = null;
-    private session: any = null;
+    private session: Promise<LiveRelayConnection> | null = null;
     private nextStartTime = 0;
     private currentSources = new Set<AudioBufferSourceNode>();
     private isMuted = true; 
     private cleanup: (() => void) | null = null;
+    private options: LiveSessionOptions | null = null;
+
+    // Reconnection state
+    private isClosing = false;
+    private sessionGeneration = 0;
+    private reconnectAttempts = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private recentLines: string[] = [];
+
+    // Voice activity detection state
+    private vad = new VoiceActivityDetector();
+    private preRoll: string[] = [];
+    private captureSampleRate = 16000;
     
     // Buffers for transcription
     private currentInputTranscription = "";
@@ -140,6 +120,7 @@ export class LiveVoiceSession {
 
     setListening(isListening: boolean) {
         this.isMuted = !isListening;
+        this.resetVoiceActivity();
         if (isListening) {
             if (this.inputContext?.state === 'suspended') this.inputContext.resume();
             if (this.outputContext?.state === 'suspended') this.outputContext.resume();
@@ -152,35 +133,31 @@ export class LiveVoiceSession {
     // useful for initial greetings
     sendText(text: string) {
         if (!this.session) return;
-        this.session.then((s: any) => {
-            // Using the low-level send method to inject a client content turn
-            if (typeof s.send === 'function') {
-                s.send({
-                    clientContent: {
-                        turns: [{
-                            role: 'user',
-                            parts: [{ text: text }]
-                        }],
-                        turnComplete: true
-                    }
-                });
-            }
+        this.session.then(s => {
+            // Inject a client content turn
+            s.sendClientContent({
+                turns: [{
+                    role: 'user',
+                    parts: [{ text: text }]
+                }],
+                turnComplete: true
+            });
         });
     }
 
-    // Send an image to the live context
+    // Send an image to the live context, faces blurred first (see privacy.ts)
     sendImage(base64Data: string) {
         if (!this.session) return;
-        this.session.then((s: any) => {
+        preparePhoto(`data:image/jpeg;base64,${base64Data}`).then(photo => this.session?.then(s => {
              s.sendRealtimeInput({
                 media: {
                     mimeType: 'image/jpeg',
-                    data: base64Data
+                    data: photo.split(',')[1]
                 }
             });
             // We nudge the model to acknowledge the image immediately
             this.sendText("I just sent you a photo. Look at it, describe it excitedly to the child, and then use the drawing tool to turn it into a magic scene!");
-        });
+        })).catch(err => console.error("Preparing photo failed", err));
     }
 
     private stopAudioOutput() {
@@ -189,116 +166,42 @@ export class LiveVoiceSession {
         });
         this.currentSources.clear();
         this.nextStartTime = this.outputContext?.currentTime || 0;
-        this.onAiSpeaking(false);
+        this.setAiSpeaking(false);
     }
 
     async connect(options: LiveSessionOptions) {
+        this.options = options;
+        this.isClosing = false;
+        this.vad = new VoiceActivityDetector({ sensitivity: options.vadSensitivity });
         try {
             this.inputContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            this.outputContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+            this.outputContext = audioPlayback.context;
             
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            const source = this.inputContext.createMediaStreamSource(stream);
-            const processor = this.inputContext.createScriptProcessor(4096, 1, 1);
-
-            processor.onaudioprocess = (e) => {
+            // Echo cancellation keeps Gemi's own voice from triggering barge-in;
+            // auto gain helps with quiet children
+            const stream = await navigator.mediaDevices.getUserMedia({
+                audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+            });
+            const capture = await startMicCapture(this.inputContext, stream, (chunk) => {
                 if (this.isMuted || !this.session) return;
-                
-                const inputData = e.inputBuffer.getChannelData(0);
-                const pcm16 = this.floatTo16BitPCM(inputData);
-                const uint8 = new Uint8Array(pcm16.buffer);
-                const base64Data = this.arrayBufferToBase64(uint8);
-                
-                this.session.then((s: any) => {
-                    s.sendRealtimeInput({
-                        media: {
-                            mimeType: 'audio/pcm;rate=16000',
-                            data: base64Data
-                        }
-                    });
-                });
-            };
-
-            source.connect(processor);
-            processor.connect(this.inputContext.destination);
-
-            const sessionPromise = this.ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-                    },
-                    systemInstruction: options.systemInstruction,
-                    tools: options.tools,
-                    inputAudioTranscription: {}, 
-                    outputAudioTranscription: {} 
-                },
-                callbacks: {
-                    onopen: () => { console.log("Live session connected"); },
-                    onmessage: async (msg: LiveServerMessage) => {
-                         // Handle Transcription
-                         const serverContent = msg.serverContent;
-                         if (serverContent?.outputTranscription) {
-                             this.currentOutputTranscription += serverContent.outputTranscription.text;
-                             this.onTranscription?.(this.currentInputTranscription, this.currentOutputTranscription, false);
-                         } else if (serverContent?.inputTranscription) {
-                             this.currentInputTranscription += serverContent.inputTranscription.text;
-                             this.onTranscription?.(this.currentInputTranscription, this.currentOutputTranscription, false);
-                         }
-
-                         if (serverContent?.turnComplete) {
-                             // Turn is complete, flush transcription
-                             this.onTranscription?.(this.currentInputTranscription, this.currentOutputTranscription, true);
-                             this.currentInputTranscription = "";
-                             this.currentOutputTranscription = "";
-                         }
-
-                         // Handle Audio
-                         const audioData = serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-                         if (audioData && this.outputContext) {
-                             const audioBytes = this.base64ToUint8Array(audioData);
-                             const audioBuffer = await this.decodeAudioData(audioBytes, this.outputContext);
-                             this.playAudioBuffer(audioBuffer);
-                         }
-
-                         // Handle Tool Calls (Function Calling)
-                         if (msg.toolCall && options.onToolCall) {
-                            for (const fc of msg.toolCall.functionCalls) {
-                                console.log("Tool call received:", fc.name, fc.args);
-                                const result = await options.onToolCall(fc.name, fc.args);
-                                
-                                // Send result back to model
-                                this.session.then((s: any) => {
-                                    s.sendToolResponse({
-                                        functionResponses: {
-                                            id: fc.id,
-                                            name: fc.name,
-                                            response: { result: result } 
-                                        }
-                                    });
-                                });
-                            }
-                         }
-                    },
-                    onclose: () => { console.log("Live session closed"); },
-                    onerror: (e) => { 
-                        console.error(e);
-                        this.onError("Connection error. Please restart."); 
-                    }
-                }
+                this.handleCapturedChunk(chunk);
             });
-            
-            this.session = sessionPromise;
+            this.captureSampleRate = capture.sampleRate;
 
             this.cleanup = () => {
-                source.disconnect();
-                processor.disconnect();
+                capture.stop();
                 stream.getTracks().forEach(t => t.stop());
                 this.inputContext?.close();
-                this.outputContext?.close();
-                sessionPromise.then(s => s.close());
             };
+
+            // disconnect() may have been called while waiting for the mic
+            if (this.isClosing) {
+                this.cleanup();
+                return;
+            }
+
+            window.addEventListener('online', this.handleOnline);
+            this.openSession(options.systemInstruction);
             
         } catch (error) {
             this.onError("Microphone access denied");
@@ -307,28 +210,217 @@ export class LiveVoiceSession {
     }
 
     disconnect() {
+        this.isClosing = true;
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+        window.removeEventListener('online', this.handleOnline);
+        this.session?.then(s => s.close()).catch(() => {});
+        // The output context is shared, so queued speech has to be stopped by hand
+        this.stopAudioOutput();
         this.cleanup?.();
         this.session = null;
     }
-    
-    private floatTo16BitPCM(input: Float32Array) {
-        const output = new Int16Array(input.length);
-        for (let i = 0; i < input.length; i++) {
-            const s = Math.max(-1, Math.min(1, input[i]));
-            output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+
+    // Opens a relay connection. Each connection gets a generation number so
+    // late events from a dropped connection are ignored.
+    private openSession(systemInstruction: string) {
+        const generation = ++this.sessionGeneration;
+
+        // Model, voice and transcription settings are fixed by the proxy
+        const sessionPromise = LiveRelayConnection.connect({
+            systemInstruction,
+            tools: this.options?.tools,
+        }, {
+            onopen: () => {
+                console.log("Live session connected");
+                if (this.reconnectAttempts > 0) {
+                    this.reconnectAttempts = 0;
+                    this.options?.onConnectionStateChange?.('connected');
+                }
+            },
+            onmessage: async (msg: LiveServerMessage) => {
+                 if (generation !== this.sessionGeneration) return;
+
+                 // Handle Transcription
+                 const serverContent = msg.serverContent;
+                 if (serverContent?.outputTranscription) {
+                     this.currentOutputTranscription += serverContent.outputTranscription.text;
+                     this.onTranscription?.(this.currentInputTranscription, this.currentOutputTranscription, false);
+                 } else if (serverContent?.inputTranscription) {
+                     this.currentInputTranscription += serverContent.inputTranscription.text;
+                     this.onTranscription?.(this.currentInputTranscription, this.currentOutputTranscription, false);
+                 }
+
+                 if (serverContent?.turnComplete) {
+                     // Turn is complete, flush transcription
+                     this.rememberTurn(this.currentInputTranscription, this.currentOutputTranscription);
+                     this.onTranscription?.(this.currentInputTranscription, this.currentOutputTranscription, true);
+                     this.currentInputTranscription = "";
+                     this.currentOutputTranscription = "";
+                 }
+
+                 // The server noticed the user talking over the model
+                 if (serverContent?.interrupted) {
+                     this.stopAudioOutput();
+                 }
+
+                 // Handle Audio
+                 const audioData = serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+                 if (audioData && this.outputContext) {
+                     const audioBytes = this.base64ToUint8Array(audioData);
+                     const audioBuffer = await this.decodeAudioData(audioBytes, this.outputContext);
+                     this.playAudioBuffer(audioBuffer);
+                 }
+
+                 // Handle Tool Calls (Function Calling)
+                 const onToolCall = this.options?.onToolCall;
+                 if (msg.toolCall && onToolCall) {
+                    for (const fc of msg.toolCall.functionCalls) {
+                        console.log("Tool call received:", fc.name, fc.args);
+                        this.rememberLine(`You called ${fc.name} with ${JSON.stringify(fc.args)}`);
+                        const result = await onToolCall(fc.name, fc.args);
+                        
+                        // Send result back to model
+                        this.session?.then(s => {
+                            s.sendToolResponse({
+                                functionResponses: {
+                                    id: fc.id,
+                                    name: fc.name,
+                                    response: { result: result } 
+                                }
+                            });
+                        });
+                    }
+                 }
+            },
+            onclose: () => {
+                console.log("Live session closed");
+                this.handleConnectionLost(generation);
+            },
+            onerror: (e) => { 
+                console.error(e);
+                this.handleConnectionLost(generation);
+            }
+    });
+
+        sessionPromise.catch(e => {
+            console.error(e);
+            this.handleConnectionLost(generation);
+        });
+
+        this.session = sessionPromise;
+    }
+
+    // --- Voice Activity & Barge-in ---
+    // Only speech is streamed to the model; silence and background noise
+    // stay on the device.
+
+    private handleCapturedChunk(chunk: CapturedChunk) {
+        const aiSpeaking = this.currentSources.size > 0;
+        const event = this.vad.process(chunk.level, chunk.durationMs, aiSpeaking ? BARGE_IN_STRICTNESS : 1);
+
+        if (event === 'speechStart') {
+            // The child is talking over Gemi - let the child win
+            if (aiSpeaking) this.stopAudioOutput();
+            this.options?.onUserSpeechStart?.();
+            this.preRoll.forEach(data => this.sendAudio(data));
+            this.preRoll = [];
+        }
+
+        if (this.vad.isSpeaking || event === 'speechEnd') {
+            this.sendAudio(chunk.data);
+        } else {
+            this.preRoll.push(chunk.data);
+            if (this.preRoll.length > PRE_ROLL_CHUNKS) this.preRoll.shift();
+        }
+
+        if (event === 'speechEnd') {
+            this.session?.then(s => s.sendRealtimeInput({ audioStreamEnd: true }));
+            this.options?.onUserSpeechEnd?.();
         }
-        return output;
     }
 
-    private arrayBufferToBase64(buffer: Uint8Array): string {
-        let binary = '';
-        const len = buffer.byteLength;
-        for (let i = 0; i < len; i++) {
-            binary += String.fromCharCode(buffer[i]);
+    private sendAudio(base64Data: string) {
+        this.session?.then(s => {
+            s.sendRealtimeInput({
+                media: {
+                    mimeType: `audio/pcm;rate=${this.captureSampleRate}`,
+                    data: base64Data
+                }
+            });
+        });
+    }
+
+    private resetVoiceActivity() {
+        if (this.vad.isSpeaking) this.options?.onUserSpeechEnd?.();
+        this.vad.reset();
+        this.preRoll = [];
+    }
+
+    // --- Reconnection ---
+    // Tablets drop Wi-Fi a lot, so a lost connection is retried with
+    // exponential backoff instead of surfacing an error straight away.
+
+    private handleConnectionLost(generation: number) {
+        if (this.isClosing || generation !== this.sessionGeneration) return;
+        this.sessionGeneration++;
+
+        this.session?.then(s => s.close()).catch(() => {});
+        this.session = null;
+        this.stopAudioOutput();
+        this.currentInputTranscription = "";
+        this.currentOutputTranscription = "";
+
+        if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+            this.onError("Connection error. Please restart.");
+            return;
         }
-        return btoa(binary);
+
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+        this.reconnectAttempts++;
+        this.options?.onConnectionStateChange?.('reconnecting');
+        this.reconnectTimer = setTimeout(() => this.reconnect(), delay);
     }
 
+    private reconnect() {
+        this.reconnectTimer = null;
+        if (this.isClosing || !this.options) return;
+        this.openSession(this.buildResumeInstruction(this.options));
+    }
+
+    // Skip the rest of the backoff as soon as the browser is back online
+    private handleOnline = () => {
+        if (!this.reconnectTimer) return;
+        clearTimeout(this.reconnectTimer);
+        this.reconnect();
+    };
+
+    private rememberTurn(userText: string, aiText: string) {
+        if (userText.trim()) this.rememberLine(`User: ${userText.trim()}`);
+        if (aiText.trim()) this.rememberLine(`You: ${aiText.trim()}`);
+    }
+
+    private rememberLine(line: string) {
+        const condensed = line.length > SUMMARY_LINE_MAX_CHARS ? line.slice(0, SUMMARY_LINE_MAX_CHARS) + '...' : line;
+        this.recentLines.push(condensed);
+        if (this.recentLines.length > SUMMARY_MAX_LINES) this.recentLines.shift();
+    }
+
+    // The original instruction plus what happened so far, so the model can
+    // pick up where it left off instead of starting over.
+    private buildResumeInstruction(options: LiveSessionOptions) {
+        const context = options.getResumeContext?.();
+        if (!context && this.recentLines.length === 0) return options.systemInstruction;
+
+        const sections = [
+            options.systemInstruction,
+            "[Connection resumed] The conversation was briefly interrupted. Continue naturally from where you left off. Do NOT greet again or start over.",
+        ];
+        if (context) sections.push(context);
+        if (this.recentLines.length > 0) sections.push("Recent conversation:\n" + this.recentLines.join("\n"));
+        return sections.join("\n\n");
+    }
+    
     private base64ToUint8Array(base64: string) {
         const binaryString = atob(base64);
         const len = binaryString.length;
@@ -349,22 +441,28 @@ export class LiveVoiceSession {
         return buffer;
     }
 
+    // Other app audio ducks while Gemi talks
+    private setAiSpeaking(speaking: boolean) {
+        audioPlayback.setLiveSpeaking(speaking);
+        this.onAiSpeaking(speaking);
+    }
+
     private playAudioBuffer(buffer: AudioBuffer) {
         if (!this.outputContext) return;
         
         this.nextStartTime = Math.max(this.nextStartTime, this.outputContext.currentTime);
         const source = this.outputContext.createBufferSource();
         source.buffer = buffer;
-        source.connect(this.outputContext.destination);
+        source.connect(audioPlayback.liveOutput);
         
         source.onended = () => {
             this.currentSources.delete(source);
             if (this.currentSources.size === 0) {
-                this.onAiSpeaking(false);
+                this.setAiSpeaking(false);
             }
         };
         
-        this.onAiSpeaking(true);
+        this.setAiSpeaking(true);
         source.start(this.nextStartTime);
         this.nextStartTime += buffer.duration;
         this.currentSources.add(source);
@@ -372,23 +470,35 @@ export class LiveVoiceSession {
 }
 
 // --- 5. Story Generation (Multimodal) ---
-export const generateStoryFromImage = async (base64Image: string): Promise<string> => {
-  const ai = getAiClient();
-  const prompt = "You are a warm, enthusiastic storyteller for a 3-year-old child. Look at this image from a picture book. Tell a short, fun story (max 3-4 simple sentences) in English based on what you see. Keep it easy to understand.";
-  
+export const generateStoryFromImage = async (base64Image: string, languages: LanguagePair, age: number, previousPages: string[] = []): Promise<StoryResult> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
-          { text: prompt }
-        ]
-      }
-    });
-    return response.text || "I couldn't see the picture well enough to tell a story.";
-  } catch (e) {
-    console.error(e);
-    throw new Error("Story generation failed");
+    return await postJson<StoryResult>('/api/story', { image: base64Image, languages, age, previousPages });
+  } catch (error) {
+    console.error("Story generation failed", error);
+    throw error;
   }
-};
\ No newline at end of file
+};
+
+// --- 6. Weekly Parent Summary ---
+export const summarizeWeek = async (log: string, languages: LanguagePair, age: number): Promise<string> => {
+  try {
+    const { summary } = await postJson<{ summary: string }>('/api/summary', { log, languages, age });
+    return summary;
+  } catch (error) {
+    console.error("Weekly summary failed", error);
+    throw error;
+  }
+};
+
+// --- Provider ---
+export const geminiProvider: AiProvider = {
+  name: 'gemini',
+  analyzeImageForKids,
+  generateSpeech,
+  generateKidImage,
+  editKidImage,
+  generateStoryFromImage,
+  summarizeWeek,
+  createLiveSession: (onAiSpeaking, onError, onTranscription) =>
+    new LiveVoiceSession(onAiSpeaking, onError, onTranscription),
+};
@@ -0,0 +1,97 @@
+// Small canvas helpers for photos taken in the app.
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image"));
+    img.src = src;
+  });
+
+// Center-crops a photo to a square JPEG thumbnail, small enough to keep
+// hundreds of them in IndexedDB.
+export const createThumbnail = async (dataUrl: string, size = 160): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const side = Math.min(img.width, img.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return dataUrl;
+  ctx.drawImage(img, (img.width - side) / 2, (img.height - side) / 2, side, side, 0, 0, size, size);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+// Scales a photo down so its longest side is at most maxSide, for photos
+// that are kept whole (book pages) rather than as thumbnails.
+export const resizeImage = async (dataUrl: string, maxSide = 1024): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, maxSide / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return dataUrl;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+// --- Face Blurring ---
+// Uses the browser's own face detector (Shape Detection API), so nothing
+// leaves the device to find the faces. Faces are pixelated rather than
+// blurred: canvas blur filters are missing in some browsers.
+
+// Grows each face box so hair, ears and chin are covered too
+const FACE_PADDING = 0.3;
+// Mosaic blocks across one face
+const FACE_BLOCKS = 8;
+
+// The parts of the Shape Detection API used here; not in TypeScript's DOM types
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+interface FaceDetector {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetector;
+
+const getFaceDetector = () => (window as Window & { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+
+export const canDetectFaces = () => getFaceDetector() !== undefined;
+
+// Returns the photo with every face pixelated, and how many there were
+export const pixelateFaces = async (dataUrl: string): Promise<{ image: string; faces: number }> => {
+  const FaceDetector = getFaceDetector();
+  if (!FaceDetector) throw new Error("Face detection unavailable");
+  const img = await loadImage(dataUrl);
+  const detector = new FaceDetector({ fastMode: false, maxDetectedFaces: 20 });
+  const faces = await detector.detect(img);
+  if (!faces.length) return { image: dataUrl, faces: 0 };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not blur faces");
+  ctx.drawImage(img, 0, 0);
+
+  const mosaic = document.createElement('canvas');
+  mosaic.width = FACE_BLOCKS;
+  mosaic.height = FACE_BLOCKS;
+  const mosaicCtx = mosaic.getContext('2d')!;
+  ctx.imageSmoothingEnabled = false;
+
+  for (const { boundingBox: box } of faces) {
+    const pad = Math.max(box.width, box.height) * FACE_PADDING;
+    const x = Math.max(0, box.x - pad);
+    const y = Math.max(0, box.y - pad);
+    const width = Math.min(canvas.width, box.x + box.width + pad) - x;
+    const height = Math.min(canvas.height, box.y + box.height + pad) - y;
+    // Shrink to a few blocks, then stretch back without smoothing
+    mosaicCtx.drawImage(canvas, x, y, width, height, 0, 0, FACE_BLOCKS, FACE_BLOCKS);
+    ctx.drawImage(mosaic, 0, 0, FACE_BLOCKS, FACE_BLOCKS, x, y, width, height);
+  }
+  return { image: canvas.toDataURL('image/jpeg', 0.9), faces: faces.length };
+};
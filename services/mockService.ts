@@ -0,0 +1,377 @@
+import { FlashCardData, ImageStyle, LanguageCode, LanguagePair, StoryResult } from "../types";
+import { AiProvider, LiveSession, LiveSessionOptions } from "./aiProvider";
+import { ContentBlockedError, screenText } from "./safety";
+
+// Offline, deterministic stand-in for the Gemini backend.
+// Same input always produces the same output so the UI can be developed
+// and demoed without network access or an API key.
+
+const MOCK_LATENCY_MS = 600;
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const hashString = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+type MockCard = Omit<FlashCardData, 'targetLanguage' | 'nativeWord'>;
+
+// Each object: its Chinese name plus a card per target language
+const MOCK_CARDS: { nativeWord: string; cards: Partial<Record<LanguageCode, MockCard>> }[] = [
+  {
+    nativeWord: "苹果",
+    cards: {
+      en: { targetWord: "Apple", pronunciation: "AP-uhl", simpleSentence: "I like red apples.", emoji: "🍎" },
+      ja: { targetWord: "りんご", pronunciation: "ringo", simpleSentence: "りんご だいすき！", emoji: "🍎" },
+      es: { targetWord: "Manzana", pronunciation: "mahn-SAH-nah", simpleSentence: "Me gusta la manzana.", emoji: "🍎" },
+      fr: { targetWord: "Pomme", pronunciation: "pom", simpleSentence: "J'aime la pomme.", emoji: "🍎" },
+    }
+  },
+  {
+    nativeWord: "小狗",
+    cards: {
+      en: { targetWord: "Dog", pronunciation: "dawg", simpleSentence: "The dog says woof!", emoji: "🐶" },
+      ja: { targetWord: "いぬ", pronunciation: "inu", simpleSentence: "いぬ が わんわん！", emoji: "🐶" },
+      es: { targetWord: "Perro", pronunciation: "PEH-rroh", simpleSentence: "El perro dice guau.", emoji: "🐶" },
+      fr: { targetWord: "Chien", pronunciation: "shyan", simpleSentence: "Le chien fait ouaf !", emoji: "🐶" },
+    }
+  },
+  {
+    nativeWord: "球",
+    cards: {
+      en: { targetWord: "Ball", pronunciation: "bawl", simpleSentence: "Let's play with the ball.", emoji: "⚽" },
+      ja: { targetWord: "ボール", pronunciation: "bōru", simpleSentence: "ボール で あそぼう！", emoji: "⚽" },
+      es: { targetWord: "Pelota", pronunciation: "peh-LOH-tah", simpleSentence: "¡Juega con la pelota!", emoji: "⚽" },
+      fr: { targetWord: "Ballon", pronunciation: "bah-LOHN", simpleSentence: "On joue au ballon !", emoji: "⚽" },
+    }
+  },
+  {
+    nativeWord: "汽车",
+    cards: {
+      en: { targetWord: "Car", pronunciation: "kahr", simpleSentence: "The car goes vroom!", emoji: "🚗" },
+      ja: { targetWord: "くるま", pronunciation: "kuruma", simpleSentence: "くるま が ブーブー！", emoji: "🚗" },
+      es: { targetWord: "Coche", pronunciation: "KOH-cheh", simpleSentence: "¡El coche va rápido!", emoji: "🚗" },
+      fr: { targetWord: "Voiture", pronunciation: "vwa-TUR", simpleSentence: "La voiture fait vroum !", emoji: "🚗" },
+    }
+  },
+];
+
+const MOCK_STORIES: Partial<Record<LanguageCode, StoryResult[]>> = {
+  en: [
+    {
+      sentences: [
+        { text: "Little Bear wakes up early.", translation: "小熊很早就起床了。", vocabulary: [{ targetWord: "Bear", nativeWord: "小熊", pronunciation: "bair", emoji: "🐻" }] },
+        { text: "He sees the big yellow sun.", translation: "他看见了大大的黄太阳。", vocabulary: [{ targetWord: "Sun", nativeWord: "太阳", pronunciation: "suhn", emoji: "☀️" }] },
+        { text: "He says, \"Good morning, Sun!\"", translation: "他说：“早上好，太阳！”", vocabulary: [] },
+        { text: "Then he runs outside to play.", translation: "然后他跑到外面去玩。", vocabulary: [] },
+      ]
+    },
+    {
+      sentences: [
+        { text: "A small cat finds a red ball.", translation: "一只小猫找到了一个红色的球。", vocabulary: [{ targetWord: "Cat", nativeWord: "小猫", pronunciation: "kat", emoji: "🐱" }, { targetWord: "Ball", nativeWord: "球", pronunciation: "bawl", emoji: "⚽" }] },
+        { text: "She rolls it to her friend.", translation: "她把球滚给她的朋友。", vocabulary: [] },
+        { text: "Her friend rolls it back.", translation: "朋友又把球滚了回来。", vocabulary: [] },
+        { text: "They laugh and play all day.", translation: "她们笑着玩了一整天。", vocabulary: [] },
+      ]
+    },
+    {
+      sentences: [
+        { text: "Bunny has a big carrot.", translation: "小兔子有一根大胡萝卜。", vocabulary: [{ targetWord: "Carrot", nativeWord: "胡萝卜", pronunciation: "KAR-uht", emoji: "🥕" }] },
+        { text: "She shares it with Duck.", translation: "她和小鸭子一起分享。", vocabulary: [{ targetWord: "Duck", nativeWord: "鸭子", pronunciation: "duhk", emoji: "🦆" }] },
+        { text: "Duck says, \"Thank you!\"", translation: "小鸭子说：“谢谢你！”", vocabulary: [] },
+        { text: "Sharing makes everyone happy.", translation: "分享让大家都很开心。", vocabulary: [] },
+      ]
+    },
+  ],
+  ja: [{
+    sentences: [
+      { text: "こぐまくん が おきました。", translation: "小熊起床了。", vocabulary: [] },
+      { text: "おひさま が にこにこ。", translation: "太阳笑眯眯。", vocabulary: [{ targetWord: "おひさま", nativeWord: "太阳", pronunciation: "ohisama", emoji: "☀️" }] },
+      { text: "「おはよう！」 と いいました。", translation: "他说：“早上好！”", vocabulary: [] },
+    ]
+  }],
+  es: [{
+    sentences: [
+      { text: "El osito se despierta.", translation: "小熊醒了。", vocabulary: [] },
+      { text: "Ve el sol amarillo.", translation: "他看见了黄色的太阳。", vocabulary: [{ targetWord: "Sol", nativeWord: "太阳", pronunciation: "sohl", emoji: "☀️" }] },
+      { text: "Dice: \"¡Buenos días, sol!\"", translation: "他说：“早上好，太阳！”", vocabulary: [] },
+      { text: "Y sale a jugar.", translation: "然后出去玩了。", vocabulary: [] },
+    ]
+  }],
+  fr: [{
+    sentences: [
+      { text: "Petit Ours se réveille.", translation: "小熊醒了。", vocabulary: [] },
+      { text: "Il voit le grand soleil jaune.", translation: "他看见了大大的黄太阳。", vocabulary: [{ targetWord: "Soleil", nativeWord: "太阳", pronunciation: "soh-LAY", emoji: "☀️" }] },
+      { text: "Il dit : \"Bonjour, Soleil !\"", translation: "他说：“你好，太阳！”", vocabulary: [] },
+      { text: "Puis il va jouer.", translation: "然后他去玩了。", vocabulary: [] },
+    ]
+  }],
+};
+
+// --- 1. Photo Analysis (Vision) ---
+export const analyzeImageForKids = async (base64Image: string, languages: LanguagePair, _age: number): Promise<FlashCardData> => {
+  await wait(MOCK_LATENCY_MS);
+  const entry = MOCK_CARDS[hashString(base64Image) % MOCK_CARDS.length];
+  const card = entry.cards[languages.target] ?? entry.cards.en!;
+  return { ...card, nativeWord: entry.nativeWord, targetLanguage: languages.target };
+};
+
+// --- 2. Audio Generation (TTS) ---
+// Renders a short sine-wave melody whose pitch and length depend on the text.
+export const generateSpeech = async (text: string, _language: LanguageCode): Promise<AudioBuffer | null> => {
+  const sampleRate = 24000;
+  const syllables = Math.min(Math.max(text.split(/\s+/).filter(Boolean).length, 1), 12);
+  const noteSeconds = 0.22;
+  const length = Math.floor(sampleRate * noteSeconds * syllables);
+  const buffer = new AudioBuffer({ numberOfChannels: 1, length, sampleRate });
+  const channel = buffer.getChannelData(0);
+
+  const baseFrequency = 300 + (hashString(text) % 200);
+  const noteLength = Math.floor(sampleRate * noteSeconds);
+  for (let i = 0; i < length; i++) {
+    const note = Math.floor(i / noteLength);
+    const frequency = baseFrequency * (1 + (note % 3) * 0.125);
+    const positionInNote = (i % noteLength) / noteLength;
+    // Simple fade in/out per note so the tones don't click
+    const envelope = Math.sin(Math.PI * positionInNote);
+    channel[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * envelope * 0.2;
+  }
+  return buffer;
+};
+
+// --- 3. Image Generation (Placeholder) ---
+const PLACEHOLDER_COLORS = ['#FDE68A', '#BFDBFE', '#FBCFE8', '#BBF7D0', '#DDD6FE'];
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c] as string));
+
+const placeholderImage = (color: string, text: string) => {
+  const label = escapeXml(text.length > 60 ? text.slice(0, 57) + '...' : text);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">
+    <rect width="512" height="512" fill="${color}"/>
+    <text x="256" y="230" font-size="120" text-anchor="middle">🎨</text>
+    <text x="256" y="330" font-size="22" font-family="sans-serif" text-anchor="middle" fill="#4B5563">${label}</text>
+  </svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// Closed black outlines on white, so the coloring canvas has regions to fill
+const placeholderColoringPage = (text: string) => {
+  const label = escapeXml(text.length > 60 ? text.slice(0, 57) + '...' : text);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">
+    <rect width="512" height="512" fill="#FFFFFF"/>
+    <g fill="none" stroke="#000000" stroke-width="8" stroke-linejoin="round">
+      <circle cx="400" cy="100" r="50"/>
+      <rect x="110" y="230" width="180" height="160"/>
+      <polygon points="90,230 200,130 310,230"/>
+      <rect x="175" y="300" width="50" height="90"/>
+      <path d="M 4 390 L 508 390 L 508 508 L 4 508 Z"/>
+    </g>
+    <text x="256" y="470" font-size="20" font-family="sans-serif" text-anchor="middle" fill="#000000">${label}</text>
+  </svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// Stands in for the server's safety refusal, so the fallbacks can be tried offline
+const refuseUnsafe = (text: string) => {
+  if (screenText(text).terms.length) throw new ContentBlockedError();
+};
+
+export const generateKidImage = async (prompt: string, style: ImageStyle = 'illustration'): Promise<string> => {
+  await wait(MOCK_LATENCY_MS);
+  refuseUnsafe(prompt);
+  if (style === 'coloringPage') return placeholderColoringPage(prompt);
+  return placeholderImage(PLACEHOLDER_COLORS[hashString(prompt) % PLACEHOLDER_COLORS.length], prompt);
+};
+
+// Keeps the earlier placeholder's color, the way a real edit keeps the picture
+export const editKidImage = async (image: string, instruction: string): Promise<string> => {
+  await wait(MOCK_LATENCY_MS);
+  refuseUnsafe(instruction);
+  const color = /fill="(#[0-9A-Fa-f]{6})"/.exec(decodeURIComponent(image))?.[1] ?? PLACEHOLDER_COLORS[0];
+  return placeholderImage(color, instruction);
+};
+
+// --- 4. Live Voice Chat (Scripted) ---
+
+interface ScriptedTurn {
+    userText: string;
+    aiText: string;
+    toolCall?: { name: string; args: Record<string, any> };
+}
+
+const SCRIPTED_TURNS: ScriptedTurn[] = [
+    {
+        userText: "Apple",
+        aiText: "哇！是 Apple！苹果！我把它画到我们的画里去！",
+        toolCall: { name: 'add_object', args: { object: "apple", color: "red", position: "on a table", target_word: "Apple", native_word: "苹果", emoji: "🍎" } }
+    },
+    {
+        // Saying the word back for pronunciation practice
+        userText: "Apple!",
+        aiText: "说得真棒！Apple！"
+    },
+    {
+        userText: "Banana",
+        aiText: "Banana！香蕉！放在苹果旁边吧！",
+        toolCall: { name: 'add_object', args: { object: "banana", color: "yellow", position: "next to the apple", target_word: "Banana", native_word: "香蕉", emoji: "🍌" } }
+    },
+    {
+        userText: "Bird",
+        aiText: "Bird！小鸟飞来啦！",
+        toolCall: { name: 'add_object', args: { object: "bird", size: "small", position: "flying above", target_word: "Bird", native_word: "小鸟", emoji: "🐦" } }
+    },
+    {
+        userText: "Blue!",
+        aiText: "Blue！蓝色的小鸟！",
+        toolCall: { name: 'change_color', args: { object: "bird", color: "blue", target_word: "Blue", native_word: "蓝色", emoji: "🔵" } }
+    },
+    {
+        userText: "不要小鸟了",
+        aiText: "好的！我们回到上一步，小鸟飞走啦！",
+        toolCall: { name: 'undo_drawing', args: {} }
+    },
+];
+
+const GREETING = "你好呀！我是 Gemi。我们开始吧！";
+const ACKNOWLEDGEMENT = "好的！";
+const USER_TURN_INTERVAL_MS = 8000;
+const SPEAKING_MS_PER_CHAR = 120;
+
+export class MockLiveSession implements LiveSession {
+    private options: LiveSessionOptions | null = null;
+    private isMuted = true;
+    private turnIndex = 0;
+    private hasGreeted = false;
+    private timers = new Set<ReturnType<typeof setTimeout>>();
+    private userTurnTimer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(
+        private onAiSpeaking: (speaking: boolean) => void,
+        private onError: (msg: string) => void,
+        private onTranscription?: (userText: string, aiText: string, isFinal: boolean) => void
+    ) {}
+
+    async connect(options: LiveSessionOptions) {
+        await wait(MOCK_LATENCY_MS);
+        this.options = options;
+        console.log("Mock live session connected");
+    }
+
+    disconnect() {
+        this.timers.forEach(t => clearTimeout(t));
+        this.timers.clear();
+        this.stopUserTurns();
+        this.options = null;
+    }
+
+    setListening(isListening: boolean) {
+        this.isMuted = !isListening;
+        if (isListening) {
+            this.startUserTurns();
+        } else {
+            this.stopUserTurns();
+            this.onAiSpeaking(false);
+        }
+    }
+
+    sendText(_text: string) {
+        if (!this.options) return;
+        // Later system messages (e.g. the child switching pictures) get a short reply
+        this.speak("", this.hasGreeted ? ACKNOWLEDGEMENT : GREETING);
+        this.hasGreeted = true;
+    }
+
+    sendImage(_base64Data: string) {
+        if (!this.options) return;
+        this.speak("", "哇！好漂亮的照片！我们把它变成魔法画吧！");
+    }
+
+    private startUserTurns() {
+        if (this.userTurnTimer) return;
+        this.userTurnTimer = setInterval(() => this.playNextUserTurn(), USER_TURN_INTERVAL_MS);
+    }
+
+    private stopUserTurns() {
+        if (this.userTurnTimer) clearInterval(this.userTurnTimer);
+        this.userTurnTimer = null;
+    }
+
+    private async playNextUserTurn() {
+        if (this.isMuted || !this.options || this.turnIndex >= SCRIPTED_TURNS.length) return;
+        const turn = SCRIPTED_TURNS[this.turnIndex++];
+
+        this.options.onUserSpeechStart?.();
+        this.onTranscription?.(turn.userText, "", false);
+        this.options.onUserSpeechEnd?.();
+
+        const declaredTools = (this.options.tools || []).flatMap(t => t.functionDeclarations || []);
+        const canCallTool = turn.toolCall
+            && this.options.onToolCall
+            && declaredTools.some(fd => fd.name === turn.toolCall!.name);
+
+        this.speak(turn.userText, turn.aiText);
+
+        if (canCallTool) {
+            console.log("Mock tool call:", turn.toolCall!.name, turn.toolCall!.args);
+            try {
+                await this.options.onToolCall!(turn.toolCall!.name, turn.toolCall!.args);
+            } catch (e) {
+                console.error(e);
+                this.onError("Mock tool call failed");
+            }
+        }
+    }
+
+    // Simulates the model talking for a duration proportional to the text
+    private speak(userText: string, aiText: string) {
+        this.onAiSpeaking(true);
+        this.onTranscription?.(userText, aiText, false);
+        this.schedule(() => {
+            this.onAiSpeaking(false);
+            this.onTranscription?.(userText, aiText, true);
+        }, aiText.length * SPEAKING_MS_PER_CHAR);
+    }
+
+    private schedule(fn: () => void, ms: number) {
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            fn();
+        }, ms);
+        this.timers.add(timer);
+    }
+}
+
+// --- 5. Story Generation ---
+export const generateStoryFromImage = async (base64Image: string, languages: LanguagePair, _age: number, previousPages: string[] = []): Promise<StoryResult> => {
+  await wait(MOCK_LATENCY_MS);
+  const stories = MOCK_STORIES[languages.target] ?? MOCK_STORIES.en!;
+  // Later pages of a book move on to the next canned story
+  return stories[(hashString(base64Image) + previousPages.length) % stories.length];
+};
+
+// --- 6. Weekly Parent Summary ---
+export const summarizeWeek = async (log: string, _languages: LanguagePair, _age: number): Promise<string> => {
+  await wait(MOCK_LATENCY_MS);
+  const newWords = /^New words: (.*)$/m.exec(log)?.[1] ?? 'none';
+  return newWords === 'none'
+    ? "这周还没有学新词。下周可以一起拍拍家里的东西，从最喜欢的玩具开始学起！"
+    : `这周宝贝认识了这些新词：${newWords}。表现很棒！下周可以在吃饭或洗澡的时候，指着东西一起说一说。`;
+};
+
+// --- Provider ---
+export const mockProvider: AiProvider = {
+  name: 'mock',
+  analyzeImageForKids,
+  generateSpeech,
+  generateKidImage,
+  editKidImage,
+  generateStoryFromImage,
+  summarizeWeek,
+  createLiveSession: (onAiSpeaking, onError, onTranscription) =>
+    new MockLiveSession(onAiSpeaking, onError, onTranscription),
+};
@@ -0,0 +1,92 @@
+import { PrivacySettings } from "../types";
+import { STORES, StoreName, dbDeleteByIndex } from "./db";
+import { canDetectFaces, pixelateFaces } from "./imageUtils";
+import { clearSpeechCache } from "./speechCache";
+
+// --- Privacy ---
+// What leaves the device and what stays on it. Faces in photos can be
+// pixelated before they go to the model. The microphone stays off until
+// a parent turns it on. Transcripts and photos can be left unsaved, and
+// a child's data can be wiped in one go. Settings are per device and
+// kept in localStorage.
+
+const STORAGE_KEY = 'kidslingo.privacy';
+
+const DEFAULT_SETTINGS: PrivacySettings = { blurFaces: true, keepTranscripts: true, keepPhotos: true, allowMic: false };
+
+// Every store holding a child's records; all are indexed by profileId
+const CHILD_STORES: StoreName[] = [
+  STORES.words,
+  STORES.reviews,
+  STORES.pronunciation,
+  STORES.books,
+  STORES.artworks,
+  STORES.sessions,
+  STORES.usage,
+  STORES.safety,
+];
+
+const loadSettings = (): PrivacySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    const settings = { ...DEFAULT_SETTINGS };
+    for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof PrivacySettings)[]) {
+      if (typeof stored?.[key] === 'boolean') settings[key] = stored[key];
+    }
+    return settings;
+  } catch {
+    // Corrupt value - back to the defaults
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+let settings = loadSettings();
+const listeners = new Set<(settings: PrivacySettings) => void>();
+
+export const getPrivacySettings = () => settings;
+
+export const savePrivacySettings = (next: PrivacySettings) => {
+  settings = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach(listener => listener(next));
+};
+
+export const onPrivacyChange = (listener: (settings: PrivacySettings) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Thrown instead of sending a photo whose faces couldn't be blurred
+export class PhotoNotAllowedError extends Error {
+  constructor(message = "Faces can't be blurred on this device") {
+    super(message);
+  }
+}
+
+// Whether photos can be sent at all: with face blurring on, only where the
+// browser can find the faces. Elsewhere a parent has to turn blurring off.
+export const canSendPhotos = () => !settings.blurFaces || canDetectFaces();
+
+// The photo to send to the model, and to show and keep from then on. With
+// face blurring on it fails closed: no detector, or a failed detection,
+// throws rather than send the photo unblurred.
+export const preparePhoto = async (dataUrl: string): Promise<string> => {
+  if (!settings.blurFaces) return dataUrl;
+  if (!canDetectFaces()) throw new PhotoNotAllowedError();
+  const { image } = await pixelateFaces(dataUrl);
+  return image;
+};
+
+// Everything stored about one child in IndexedDB: words, reviews,
+// say-it-back tries, books, artworks, transcripts, screen time and the
+// safety log, plus the shared speech cache, whose entries can't be told
+// apart by child. The profile and its screen-time rules live in
+// localStorage and are removed through their contexts.
+export const deleteChildData = async (profileId: string): Promise<void> => {
+  await Promise.all([
+    ...CHILD_STORES.map(store => dbDeleteByIndex(store, 'profileId', profileId)),
+    clearSpeechCache(),
+  ]);
+};
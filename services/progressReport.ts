@@ -0,0 +1,144 @@
+import { AppTab, FlashCardData, SafetyEvent, TranscriptSession, WordSource } from "../types";
+import { listReviewItems, getRetentionStats, RetentionStats } from "./spacedRepetition";
+import { listAttempts } from "./pronunciation";
+import { listBooks } from "./storyBooks";
+import { listSessions, TAB_LABELS } from "./transcripts";
+import { dayKey, listUsage } from "./usage";
+import { listSafetyEvents } from "./safety";
+
+// --- Progress Report ---
+// The parent dashboard's numbers for the last week, gathered from every
+// local store: words, reviews, say-it-back tries, books, voice sessions
+// screen time and anything the safety checks held back.
+
+export const REPORT_DAYS = 7;
+// Say-it-back words averaging fewer stars than this are worth practicing
+const PRACTICE_STAR_THRESHOLD = 2;
+// Transcript lines handed to the model for the weekly summary
+const SUMMARY_TRANSCRIPT_LINES = 60;
+
+export interface ProgressReport {
+  // Local days, oldest first; the per-day arrays line up with it
+  days: string[];
+  newWordsPerDay: number[];
+  // Reviews plus say-it-back tries
+  practicePerDay: number[];
+  newWords: FlashCardData[];
+  newWordsBySource: Record<WordSource, number>;
+  // Different words reviewed or said back this week
+  wordsPracticed: number;
+  minutesPerTab: Record<AppTab, number>;
+  pronunciationAttempts: number;
+  averageStars: number | null;
+  // Lowest-scoring words first
+  wordsToPractice: string[];
+  booksRead: number;
+  voiceSessions: TranscriptSession[];
+  retention: RetentionStats;
+  // Most recent first
+  safetyEvents: SafetyEvent[];
+}
+
+export const buildProgressReport = async (profileId: string, now = Date.now()): Promise<ProgressReport> => {
+  // Calendar arithmetic, so a DST change can't skip or repeat a day
+  const today = new Date(now);
+  const days = Array.from({ length: REPORT_DAYS }, (_, i) =>
+    dayKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - (REPORT_DAYS - 1 - i)).getTime()));
+  const since = new Date(`${days[0]}T00:00:00`).getTime();
+  const dayIndex = (time: number) => days.indexOf(dayKey(time));
+
+  const [items, attempts, books, sessions, usage, retention, safetyEvents] = await Promise.all([
+    listReviewItems(profileId),
+    listAttempts(profileId),
+    listBooks(profileId),
+    listSessions(profileId),
+    listUsage(profileId),
+    getRetentionStats(profileId, now),
+    listSafetyEvents(profileId),
+  ]);
+
+  const newWordsPerDay = days.map(() => 0);
+  const practicePerDay = days.map(() => 0);
+  const newWords: FlashCardData[] = [];
+  const newWordsBySource: Record<WordSource, number> = { photo: 0, draw: 0, story: 0 };
+  const practiced = new Set<string>();
+
+  for (const item of items) {
+    if (item.addedAt >= since) {
+      newWordsPerDay[dayIndex(item.addedAt)]++;
+      newWords.push(item.card);
+      newWordsBySource[item.source]++;
+    }
+    for (const review of item.history) {
+      if (review.at < since) continue;
+      practicePerDay[dayIndex(review.at)]++;
+      practiced.add(item.id);
+    }
+  }
+
+  const recentAttempts = attempts.filter(attempt => attempt.at >= since);
+  const starsByWord = new Map<string, number[]>();
+  for (const attempt of recentAttempts) {
+    practicePerDay[dayIndex(attempt.at)]++;
+    practiced.add(attempt.wordId);
+    starsByWord.set(attempt.targetWord, [...(starsByWord.get(attempt.targetWord) ?? []), attempt.stars]);
+  }
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const wordsToPractice = [...starsByWord.entries()]
+    .map(([word, stars]) => ({ word, stars: average(stars) }))
+    .filter(entry => entry.stars < PRACTICE_STAR_THRESHOLD)
+    .sort((a, b) => a.stars - b.stars)
+    .map(entry => entry.word);
+
+  const minutesPerTab: Record<AppTab, number> = { [AppTab.PHOTO]: 0, [AppTab.DRAW]: 0, [AppTab.CHAT]: 0, [AppTab.STORY]: 0 };
+  for (const entry of usage) {
+    if (days.includes(entry.day)) minutesPerTab[entry.tab] += entry.ms / 60000;
+  }
+
+  return {
+    days,
+    newWordsPerDay,
+    practicePerDay,
+    newWords,
+    newWordsBySource,
+    wordsPracticed: practiced.size,
+    minutesPerTab,
+    pronunciationAttempts: recentAttempts.length,
+    averageStars: recentAttempts.length ? average(recentAttempts.map(a => a.stars)) : null,
+    wordsToPractice,
+    booksRead: books.filter(book => book.updatedAt >= since).length,
+    voiceSessions: sessions.filter(session => session.startedAt >= since && session.turns.length > 0),
+    retention,
+    safetyEvents: safetyEvents.filter(event => event.at >= since),
+  };
+};
+
+// Plain-text digest of the week for the model to summarize; the most
+// recent transcript lines give it a feel for what was talked about
+export const reportToLog = (report: ProgressReport): string => {
+  const lines = [
+    `Week: ${report.days[0]} to ${report.days[report.days.length - 1]}`,
+    `New words per day: ${report.days.map((day, i) => `${day}: ${report.newWordsPerDay[i]}`).join(', ')}`,
+    `New words: ${report.newWords.map(card => `${card.targetWord} (${card.nativeWord})`).join(', ') || 'none'}`,
+    `Where new words came from: photos ${report.newWordsBySource.photo}, magic canvas ${report.newWordsBySource.draw}, stories ${report.newWordsBySource.story}`,
+    `Practice (reviews and say-it-back tries) per day: ${report.practicePerDay.join(', ')}`,
+    `Different words practiced: ${report.wordsPracticed}`,
+    `Minutes per activity: ${Object.entries(report.minutesPerTab).map(([tab, minutes]) => `${tab} ${Math.round(minutes)}`).join(', ')}`,
+    `Say-it-back tries: ${report.pronunciationAttempts}, average stars: ${report.averageStars?.toFixed(1) ?? 'n/a'} of 3`,
+    `Words that were hard to say: ${report.wordsToPractice.join(', ') || 'none'}`,
+    `Picture books read: ${report.booksRead}`,
+    `Words known in total: ${report.retention.totalWords}, mastered: ${report.retention.masteredWords}`,
+    `Voice sessions: ${report.voiceSessions.length}`,
+    `Things held back by the safety filter: ${report.safetyEvents.length}`,
+  ];
+
+  const transcript = report.voiceSessions
+    .slice()
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .flatMap(session => session.turns.map(turn =>
+      `[${TAB_LABELS[session.tab]}] ${turn.speaker === 'gemi' ? 'Gemi' : 'Family'}: ${turn.text}`))
+    .slice(-SUMMARY_TRANSCRIPT_LINES);
+  if (transcript.length) lines.push('Recent conversation lines:', ...transcript);
+
+  return lines.join('\n');
+};
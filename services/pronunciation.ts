@@ -0,0 +1,143 @@
+import { FlashCardData, PronunciationAttempt, WordSource } from "../types";
+import { STORES, dbGetAllByIndex, dbPut } from "./db";
+import { wordId } from "./wordCollection";
+import { getPrivacySettings } from "./privacy";
+
+// --- Pronunciation Practice ("say it back") ---
+// The live session transcribes what the child says; we compare that text
+// with the word they were asked to repeat. Transcripts of small children
+// are rough, so matching is forgiving: spelling distance plus a coarse
+// sound-alike key, and the word may appear anywhere in the utterance.
+
+export const MAX_STARS = 3;
+
+export interface PronunciationScore {
+  similarity: number;
+  stars: number;
+}
+
+// Shown (and spoken by the coach) after each try; every try earns a star
+export const PRONUNCIATION_FEEDBACK: Record<number, string> = {
+  1: '勇敢地说出来啦！我们再试一次吧！',
+  2: '很接近了！再大声说一次！',
+  3: '太棒了！说得真标准！',
+};
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Groups letters that sound alike (or that young learners mix up, like l/r)
+// and drops vowels after the first letter
+const SOUND_GROUPS: Record<string, string> = {
+  b: 'b', p: 'b',
+  c: 'k', g: 'k', k: 'k', q: 'k',
+  d: 't', t: 't',
+  f: 'f', v: 'f',
+  s: 's', x: 's', z: 's',
+  m: 'm', n: 'm',
+  l: 'l', r: 'l',
+  j: 'j',
+};
+
+const phoneticKey = (word: string) => {
+  const letters = word.replace(/ph/g, 'f').replace(/\s/g, '');
+  const first = letters.charAt(0);
+  let key = SOUND_GROUPS[first] ?? first;
+  let last = SOUND_GROUPS[first] ?? '';
+  for (const ch of letters.slice(1)) {
+    const group = SOUND_GROUPS[ch];
+    if (group && group !== last) key += group;
+    last = group ?? '';
+  }
+  return key;
+};
+
+const editDistance = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+const similarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - editDistance(a, b) / longest;
+};
+
+const isLatin = (text: string) => /^[a-z0-9\s]+$/.test(text);
+
+// Closest run of words in the utterance to the expected word
+const bestMatch = (heard: string, expected: string) => {
+  if (!heard || !expected) return 0;
+  // Scripts without spaces (kana, hanzi) are matched by containment
+  if (heard.replace(/\s/g, '').includes(expected.replace(/\s/g, ''))) return 1;
+
+  const words = heard.split(' ');
+  const span = expected.split(' ').length;
+  let best = similarity(heard, expected);
+  for (let size = Math.max(1, span - 1); size <= span + 1; size++) {
+    for (let i = 0; i + size <= words.length; i++) {
+      const window = words.slice(i, i + size).join(' ');
+      best = Math.max(best, similarity(window, expected));
+      if (isLatin(window) && isLatin(expected)) {
+        // Sounding right counts for almost as much as spelling right
+        best = Math.max(best, similarity(phoneticKey(window), phoneticKey(expected)) * 0.9);
+      }
+    }
+  }
+  return best;
+};
+
+export const scorePronunciation = (transcript: string, card: FlashCardData): PronunciationScore => {
+  const heard = normalize(transcript);
+  // The romanized guide helps when the transcript comes back in Latin letters
+  const candidates = [card.targetWord, card.pronunciation].map(normalize).filter(Boolean);
+  const best = Math.max(0, ...candidates.map(expected => bestMatch(heard, expected)));
+  const stars = best >= 0.85 ? 3 : best >= 0.6 ? 2 : 1;
+  return { similarity: best, stars };
+};
+
+export const recordAttempt = async (
+  profileId: string,
+  card: FlashCardData,
+  transcript: string,
+  score: PronunciationScore,
+  source: WordSource
+): Promise<PronunciationAttempt> => {
+  const attempt: PronunciationAttempt = {
+    id: crypto.randomUUID(),
+    profileId,
+    wordId: wordId(profileId, card),
+    targetLanguage: card.targetLanguage,
+    targetWord: card.targetWord,
+    // With transcripts turned off only the score is kept, not what was said
+    transcript: getPrivacySettings().keepTranscripts ? transcript : '',
+    similarity: score.similarity,
+    stars: score.stars,
+    source,
+    at: Date.now(),
+  };
+  await dbPut(STORES.pronunciation, attempt);
+  return attempt;
+};
+
+// Oldest first
+export const listAttempts = async (profileId: string): Promise<PronunciationAttempt[]> => {
+  const attempts = await dbGetAllByIndex<PronunciationAttempt>(STORES.pronunciation, 'profileId', profileId);
+  return attempts.sort((a, b) => a.at - b.at);
+};
+
+export const listWordAttempts = async (profileId: string, card: FlashCardData): Promise<PronunciationAttempt[]> => {
+  const attempts = await dbGetAllByIndex<PronunciationAttempt>(STORES.pronunciation, 'wordId', wordId(profileId, card));
+  return attempts.sort((a, b) => a.at - b.at);
+};
@@ -0,0 +1,106 @@
+import { LiveRelayClientMessage, LiveRelayServerMessage, LiveRelaySetup } from "../types";
+import { ContentBlockedError } from "./safety";
+
+// Browser side of the API proxy (see server/index.ts).
+// The Gemini key lives on the server; the browser only identifies itself
+// with a random per-device id, which ends up in the server log.
+
+const DEVICE_ID_KEY = 'kidslingo.deviceId';
+
+export const getDeviceId = (): string => {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+};
+
+export const postJson = async <T>(path: string, body: unknown): Promise<T> => {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Device-Id': getDeviceId(),
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const detail = await response.json().catch(() => null);
+    if (detail?.blocked) throw new ContentBlockedError();
+    throw new Error(detail?.error || `Request to ${path} failed (${response.status})`);
+  }
+  return response.json() as Promise<T>;
+};
+
+interface LiveRelayCallbacks {
+    onopen?: () => void;
+    onmessage: (message: any) => void;
+    onerror?: (message: string) => void;
+    onclose?: (reason?: string) => void;
+}
+
+// Mirrors the parts of the SDK's live Session that LiveVoiceSession uses,
+// but forwards everything through the proxy's WebSocket relay.
+export class LiveRelayConnection {
+    private constructor(private ws: WebSocket) {}
+
+    static connect(setup: LiveRelaySetup, callbacks: LiveRelayCallbacks): Promise<LiveRelayConnection> {
+        return new Promise((resolve, reject) => {
+            const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+            const url = `${protocol}//${location.host}/api/live?deviceId=${encodeURIComponent(getDeviceId())}`;
+            const ws = new WebSocket(url);
+            const connection = new LiveRelayConnection(ws);
+            let opened = false;
+
+            ws.onopen = () => connection.post({ type: 'setup', setup });
+            ws.onmessage = (event) => {
+                const msg: LiveRelayServerMessage = JSON.parse(event.data);
+                switch (msg.type) {
+                    case 'open':
+                        opened = true;
+                        callbacks.onopen?.();
+                        resolve(connection);
+                        break;
+                    case 'message':
+                        callbacks.onmessage(msg.message);
+                        break;
+                    case 'error':
+                        callbacks.onerror?.(msg.message);
+                        break;
+                    case 'close':
+                        callbacks.onclose?.(msg.reason);
+                        break;
+                }
+            };
+            ws.onerror = () => {
+                if (!opened) reject(new Error("Live relay unavailable"));
+                else callbacks.onerror?.("Live relay error");
+            };
+            ws.onclose = () => {
+                if (!opened) reject(new Error("Live relay closed before opening"));
+                else callbacks.onclose?.();
+            };
+        });
+    }
+
+    sendRealtimeInput(params: { media?: { mimeType: string; data: string }; audioStreamEnd?: boolean }) {
+        this.post({ type: 'realtimeInput', media: params.media, audioStreamEnd: params.audioStreamEnd });
+    }
+
+    sendClientContent(params: { turns: any[]; turnComplete: boolean }) {
+        this.post({ type: 'clientContent', turns: params.turns, turnComplete: params.turnComplete });
+    }
+
+    sendToolResponse(params: { functionResponses: any }) {
+        this.post({ type: 'toolResponse', functionResponses: params.functionResponses });
+    }
+
+    close() {
+        this.ws.close();
+    }
+
+    private post(msg: LiveRelayClientMessage) {
+        if (this.ws.readyState === WebSocket.OPEN) this.ws.send(JSON.stringify(msg));
+    }
+}
@@ -0,0 +1,143 @@
+import { LanguageCode } from "../types";
+import { audioPlayback, Playback } from "./audioPlayback";
+
+// --- Read-Along ---
+// Story pages are narrated one sentence at a time so the text can follow
+// the voice. TTS gives no word timestamps, so within a sentence each word
+// gets a share of the clip proportional to its length.
+
+// Back into one paragraph; scripts without spaces don't get any between sentences
+export const joinSentences = (sentences: string[]) =>
+  sentences.join(sentences.some(sentence => /\s/.test(sentence.trim())) ? ' ' : '');
+
+// Words to highlight; punctuation stays attached so the text reads naturally
+export const splitWords = (sentence: string, language: LanguageCode): string[] => {
+  if (/\s/.test(sentence.trim())) return sentence.trim().split(/\s+/);
+  // Scripts written without spaces
+  const segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+  const words: string[] = [];
+  let opening = '';
+  for (const { segment, isWordLike } of segmenter.segment(sentence)) {
+    if (isWordLike) {
+      words.push(opening + segment);
+      opening = '';
+    } else if (words.length) {
+      words[words.length - 1] += segment;
+    } else {
+      opening += segment;
+    }
+  }
+  if (opening) words.push(opening);
+  return words;
+};
+
+// Strips punctuation so a tapped word can be spoken on its own
+export const bareWord = (word: string) => word.replace(/[^\p{L}\p{N}'’-]/gu, '');
+
+export interface ReadAlongPosition {
+  sentence: number;
+  word: number;
+  // True while the sentence's translation is being read out
+  translation: boolean;
+}
+
+// Pause between sentences so little listeners can keep up
+const SENTENCE_GAP_S = 0.35;
+
+const wordIndexAt = (words: string[], fraction: number) => {
+  const weights = words.map(word => bareWord(word).length + 1);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let reached = 0;
+  for (let i = 0; i < weights.length; i++) {
+    reached += weights[i];
+    if (fraction * total < reached) return i;
+  }
+  return words.length - 1;
+};
+
+// Plays sentence clips back to back through the shared audio playback and
+// reports which word is being spoken, read off the context clock. A
+// sentence can be followed by a clip of its translation.
+export class ReadAlongPlayer {
+    private playback: Playback | null = null;
+    private frame: number | null = null;
+
+    constructor(
+        private onProgress: (position: ReadAlongPosition | null) => void,
+        private onEnded: () => void
+    ) {}
+
+    play(
+        clips: AudioBuffer[],
+        words: string[][],
+        fromSentence: number,
+        toSentence = clips.length - 1,
+        translations: (AudioBuffer | null)[] = []
+    ) {
+        this.stop();
+
+        const slots: { sentence: number; translation: boolean; clip: AudioBuffer }[] = [];
+        for (let i = fromSentence; i <= toSentence; i++) {
+            slots.push({ sentence: i, translation: false, clip: clips[i] });
+            const translation = translations[i];
+            if (translation) slots.push({ sentence: i, translation: true, clip: translation });
+        }
+
+        const playback = audioPlayback.play(slots.map(slot => slot.clip), {
+            gapSeconds: SENTENCE_GAP_S,
+            // Also fires when another sound or a tab switch cuts us off
+            onEnded: () => {
+                if (this.playback !== playback) return;
+                this.finish();
+                this.onEnded();
+            },
+        });
+        this.playback = playback;
+
+        const tick = () => {
+            if (this.playback !== playback) return;
+            const now = audioPlayback.context.currentTime;
+            // Between sentences the last one stays lit
+            let current = 0;
+            playback.startTimes.forEach((start, i) => {
+                if (now >= start) current = i;
+            });
+            const slot = slots[current];
+            const start = playback.startTimes[current];
+            const fraction = Math.min(1, Math.max(0, (now - start) / slot.clip.duration));
+            this.onProgress({
+                sentence: slot.sentence,
+                word: slot.translation ? -1 : wordIndexAt(words[slot.sentence], fraction),
+                translation: slot.translation,
+            });
+            this.frame = requestAnimationFrame(tick);
+        };
+        this.frame = requestAnimationFrame(tick);
+    }
+
+    // A single clip with no highlighting, e.g. a tapped word
+    playClip(clip: AudioBuffer) {
+        this.stop();
+        // Kept like a narration so stop() cuts it off too
+        const playback = audioPlayback.play(clip, {
+            onEnded: () => {
+                if (this.playback === playback) this.playback = null;
+            },
+        });
+        this.playback = playback;
+    }
+
+    stop() {
+        const playback = this.playback;
+        if (!playback) return;
+        this.finish();
+        playback.stop();
+    }
+
+    private finish() {
+        if (this.frame !== null) cancelAnimationFrame(this.frame);
+        this.frame = null;
+        this.playback = null;
+        this.onProgress(null);
+    }
+}
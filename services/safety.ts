@@ -0,0 +1,110 @@
+import { AppTab, FlashCardData, SafetyEvent, StoryResult } from "../types";
+import { STORES, dbGetAllByIndex, dbPut } from "./db";
+
+// --- Content Safety ---
+// The server asks the model for strict safety settings (server/safety.ts);
+// this is the second line on the device: a word list checked against
+// transcripts, stories and flashcards, plus the log parents see of
+// everything that was held back.
+
+// Thrown by the proxy client when the model refused for safety
+export class ContentBlockedError extends Error {
+  constructor(message = "Content blocked") {
+    super(message);
+  }
+}
+
+// Words never shown or saved, in every language the app speaks. Words in
+// Latin letters only match whole words; others match anywhere.
+const BLOCKED_TERMS = [
+  // English
+  'kill', 'killed', 'killing', 'murder', 'suicide', 'gun', 'guns', 'shoot', 'bloody', 'drugs', 'cocaine',
+  'sex', 'sexy', 'naked', 'nude', 'porn', 'fuck', 'shit', 'bitch', 'damn', 'stupid', 'idiot', 'shut up',
+  // Chinese
+  '杀人', '杀死', '自杀', '去死', '血腥', '枪', '毒品', '色情', '裸体', '他妈的', '笨蛋', '滚开',
+  // Japanese
+  '殺す', 'ころす', '死ね', '自殺', '銃', '麻薬', 'ばか', 'バカ',
+  // Spanish
+  'matar', 'asesinar', 'suicidio', 'pistola', 'droga', 'drogas', 'sexo', 'desnudo', 'mierda', 'estúpido', 'idiota',
+  // French
+  'tuer', 'meurtre', 'suicide', 'pistolet', 'drogue', 'sexe', 'merde', 'stupide',
+];
+
+// Harmless phrases that contain a blocked word
+const ALLOWED_PHRASES = [
+  'water gun', 'glue gun', 'shooting star', 'shoot hoops',
+  '水枪', '玩具枪',
+  'ばかり',
+  'pistola de agua',
+  'pistolet à eau',
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const isLatin = (term: string) => /^[\p{Script=Latin}\s'-]+$/u.test(term);
+
+// One pass over the text; at each spot the longest entry wins, so an
+// allowed phrase shadows the blocked word inside it
+const FILTER = new RegExp(
+  [...new Set([...ALLOWED_PHRASES, ...BLOCKED_TERMS])]
+    .sort((a, b) => b.length - a.length)
+    .map(term => isLatin(term) ? `(?<!\\p{L})${escapeRegExp(term)}(?!\\p{L})` : escapeRegExp(term))
+    .join('|'),
+  'giu'
+);
+const ALLOWED = new Set(ALLOWED_PHRASES.map(phrase => phrase.toLowerCase()));
+
+export interface ScreenedText {
+  // The text with caught words replaced by stars
+  text: string;
+  terms: string[];
+}
+
+export const screenText = (text: string): ScreenedText => {
+  const terms: string[] = [];
+  const masked = text.replace(FILTER, match => {
+    if (ALLOWED.has(match.toLowerCase())) return match;
+    terms.push(match);
+    return '*'.repeat([...match].length);
+  });
+  return { text: masked, terms };
+};
+
+// Every caught word in a flashcard, or none
+export const screenFlashCard = (card: FlashCardData): string[] =>
+  [card.targetWord, card.nativeWord, card.simpleSentence].flatMap(text => screenText(text).terms);
+
+// Every caught word in a story, sentences, translations and key words alike
+export const screenStory = (story: StoryResult): string[] =>
+  story.sentences.flatMap(sentence => [
+    sentence.text,
+    sentence.translation,
+    ...sentence.vocabulary.flatMap(word => [word.targetWord, word.nativeWord]),
+  ]).flatMap(text => screenText(text).terms);
+
+// --- Filtered-Event Log ---
+
+const MAX_EXCERPT_CHARS = 200;
+
+export const logSafetyEvent = async (
+  profileId: string,
+  tab: AppTab,
+  kind: SafetyEvent['kind'],
+  terms: string[],
+  excerpt = ''
+): Promise<void> => {
+  await dbPut<SafetyEvent>(STORES.safety, {
+    id: crypto.randomUUID(),
+    profileId,
+    at: Date.now(),
+    tab,
+    kind,
+    terms: [...new Set(terms.map(term => term.toLowerCase()))],
+    excerpt: screenText(excerpt).text.slice(0, MAX_EXCERPT_CHARS),
+  });
+};
+
+// Most recent first
+export const listSafetyEvents = async (profileId: string): Promise<SafetyEvent[]> => {
+  const events = await dbGetAllByIndex<SafetyEvent>(STORES.safety, 'profileId', profileId);
+  return events.sort((a, b) => b.at - a.at);
+};
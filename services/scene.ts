@@ -0,0 +1,103 @@
+import { VocabularyWord } from "../types";
+
+// --- Magic Canvas Scene ---
+// The app owns the picture's contents; the live model only asks for
+// changes through tools, and the image prompt is composed from this state
+// each time so objects can't drift or get lost between turns.
+
+export type ObjectSize = 'small' | 'medium' | 'big';
+
+export interface SceneObject {
+  id: string;
+  // English, for the image prompt
+  name: string;
+  color?: string;
+  size?: ObjectSize;
+  // Free English phrase, e.g. "in the sky" or "next to the tree"
+  position?: string;
+  // The word the child learned with it, in the language being learned
+  targetWord?: string;
+  nativeWord?: string;
+  emoji?: string;
+}
+
+export interface Scene {
+  objects: SceneObject[];
+  // English, e.g. "a sunny beach"; empty means a plain backdrop
+  background: string;
+  // What the child called it, in the language being learned
+  backgroundWord?: string;
+}
+
+export const EMPTY_SCENE: Scene = { objects: [], background: '' };
+
+const SIZES: ObjectSize[] = ['small', 'medium', 'big'];
+
+export const toObjectSize = (value: unknown): ObjectSize | undefined =>
+  SIZES.includes(value as ObjectSize) ? value as ObjectSize : undefined;
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// Latest object the model means, by English name or by the child's word
+export const findObject = (scene: Scene, name: string): SceneObject | null => {
+  const wanted = normalize(name);
+  const matches = scene.objects.filter(obj =>
+    normalize(obj.name) === wanted
+    || (obj.targetWord && normalize(obj.targetWord) === wanted)
+    || (obj.nativeWord && normalize(obj.nativeWord) === wanted));
+  return matches[matches.length - 1] ?? null;
+};
+
+export const addObject = (scene: Scene, object: Omit<SceneObject, 'id'>): Scene => ({
+  ...scene,
+  objects: [...scene.objects, { ...object, id: `${Date.now()}-${scene.objects.length}` }],
+});
+
+export const removeObject = (scene: Scene, id: string): Scene => ({
+  ...scene,
+  objects: scene.objects.filter(obj => obj.id !== id),
+});
+
+export const changeColor = (scene: Scene, id: string, color: string): Scene => ({
+  ...scene,
+  objects: scene.objects.map(obj => obj.id === id ? { ...obj, color } : obj),
+});
+
+export const setBackground = (scene: Scene, background: string, backgroundWord?: string): Scene =>
+  ({ ...scene, background, backgroundWord });
+
+export const describeObject = (obj: SceneObject) =>
+  [obj.size && obj.size !== 'medium' ? obj.size : '', obj.color, obj.name, obj.position]
+    .filter(Boolean)
+    .join(' ');
+
+// One English sentence for the image model
+export const composeImagePrompt = (scene: Scene): string => {
+  const objects = scene.objects.map(obj => `a ${describeObject(obj)}`).join(', ');
+  const background = scene.background ? `Background: ${scene.background}.` : 'Plain soft background.';
+  return objects
+    ? `A picture with ${objects}. ${background}`
+    : `An empty scene. ${background}`;
+};
+
+// For editing the previous picture: the change, plus the whole scene so the
+// result still matches what the app thinks is in it
+export const composeEditInstruction = (change: string, scene: Scene): string =>
+  `${change} Afterwards the picture should show: ${composeImagePrompt(scene)}`;
+
+// Words the child learned with the things in the picture
+export const sceneWords = (scene: Scene): VocabularyWord[] => [
+  ...scene.objects
+    .filter(obj => obj.targetWord)
+    .map(obj => ({ targetWord: obj.targetWord!, nativeWord: obj.nativeWord || '', pronunciation: '', emoji: obj.emoji || '🎨' })),
+  ...(scene.backgroundWord ? [{ targetWord: scene.backgroundWord, nativeWord: '', pronunciation: '', emoji: '🏞️' }] : []),
+];
+
+// What the live model is told the picture currently shows
+export const describeScene = (scene: Scene): string => {
+  if (!scene.objects.length && !scene.background) return 'The canvas is empty.';
+  const objects = scene.objects.length
+    ? scene.objects.map(obj => `- ${describeObject(obj)}${obj.targetWord ? ` (${obj.targetWord})` : ''}`).join('\n')
+    : '- (no objects yet)';
+  return `Objects:\n${objects}\nBackground: ${scene.background || '(none)'}`;
+};
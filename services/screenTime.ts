@@ -0,0 +1,39 @@
+import { QuietHours, ScreenTimeRules } from "../types";
+import { dayKey, listUsage } from "./usage";
+
+// --- Screen Time Limits ---
+// Whether a child may keep playing right now: a daily budget measured
+// against the tracked screen time, and quiet hours such as bedtime.
+
+export type LockReason = 'timeUp' | 'quietHours';
+
+export const NO_LIMITS: ScreenTimeRules = { dailyMinutes: null, quietHours: null };
+
+// Minutes after local midnight for "HH:MM"
+const minuteOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isQuietTime = (quietHours: QuietHours, now = Date.now()) => {
+  const date = new Date(now);
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const start = minuteOfDay(quietHours.start);
+  const end = minuteOfDay(quietHours.end);
+  if (start === end) return false;
+  // e.g. 20:00-07:00 runs across midnight
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+};
+
+// Screen time across every tab today
+export const usedTodayMs = async (profileId: string, now = Date.now()) => {
+  const today = dayKey(now);
+  const usage = await listUsage(profileId);
+  return usage.filter(entry => entry.day === today).reduce((sum, entry) => sum + entry.ms, 0);
+};
+
+export const lockReason = (rules: ScreenTimeRules, usedMs: number, now = Date.now()): LockReason | null => {
+  if (rules.quietHours && isQuietTime(rules.quietHours, now)) return 'quietHours';
+  if (rules.dailyMinutes !== null && usedMs >= rules.dailyMinutes * 60_000) return 'timeUp';
+  return null;
+};
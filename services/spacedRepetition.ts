@@ -0,0 +1,130 @@
+import { FlashCardData, ReviewItem, VocabularyWord, WordSource, LanguageCode } from "../types";
+import { STORES, dbGet, dbGetAllByIndex, dbPut } from "./db";
+import { wordId } from "./wordCollection";
+
+// --- Spaced Repetition (SM-2) ---
+// Every word a child meets is scheduled for review. Getting it right pushes
+// the next review further out; missing it brings the word back tomorrow.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A word reviewed at this interval or longer counts as mastered
+const MASTERED_INTERVAL_DAYS = 21;
+export const DAILY_REVIEW_LIMIT = 10;
+
+// SM-2 quality grades for the two buttons a small child can handle
+const QUALITY_CORRECT = 4;
+const QUALITY_MISSED = 1;
+
+// Pure scheduling step, kept separate from storage
+export const scheduleNext = (item: ReviewItem, correct: boolean, now = Date.now()): ReviewItem => {
+  const quality = correct ? QUALITY_CORRECT : QUALITY_MISSED;
+  let { repetitions, intervalDays, easeFactor } = item;
+
+  if (quality >= 3) {
+    repetitions += 1;
+    intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(intervalDays * easeFactor);
+  } else {
+    repetitions = 0;
+    intervalDays = 1;
+  }
+  easeFactor = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  return {
+    ...item,
+    repetitions,
+    intervalDays,
+    easeFactor,
+    dueAt: now + intervalDays * DAY_MS,
+    history: [...item.history, { at: now, correct }],
+  };
+};
+
+export const vocabularyToCard = (word: VocabularyWord, targetLanguage: LanguageCode): FlashCardData => ({
+  targetLanguage,
+  targetWord: word.targetWord,
+  nativeWord: word.nativeWord,
+  pronunciation: word.pronunciation,
+  simpleSentence: '',
+  emoji: word.emoji,
+});
+
+// Adds a word to the schedule. Words already scheduled keep their progress;
+// only the card (and photo, if any) is refreshed.
+export const trackWord = async (
+  profileId: string,
+  card: FlashCardData,
+  source: WordSource,
+  thumbnail?: string
+): Promise<void> => {
+  if (!card.targetWord.trim()) return;
+  const id = wordId(profileId, card);
+  const existing = await dbGet<ReviewItem>(STORES.reviews, id);
+
+  if (existing) {
+    // Photo cards carry the richest data; don't overwrite them with thinner ones
+    if (source === 'photo' || existing.source !== 'photo') {
+      await dbPut(STORES.reviews, { ...existing, card, source, thumbnail: thumbnail ?? existing.thumbnail });
+    }
+    return;
+  }
+
+  const item: ReviewItem = {
+    id,
+    profileId,
+    card,
+    source,
+    thumbnail,
+    easeFactor: INITIAL_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    // New words are due straight away
+    dueAt: Date.now(),
+    history: [],
+    addedAt: Date.now(),
+  };
+  await dbPut(STORES.reviews, item);
+};
+
+export const listReviewItems = (profileId: string) =>
+  dbGetAllByIndex<ReviewItem>(STORES.reviews, 'profileId', profileId);
+
+// Today's session: most overdue first
+export const getDueReviews = async (profileId: string, now = Date.now(), limit = DAILY_REVIEW_LIMIT): Promise<ReviewItem[]> => {
+  const items = await listReviewItems(profileId);
+  return items
+    .filter(item => item.dueAt <= now)
+    .sort((a, b) => a.dueAt - b.dueAt)
+    .slice(0, limit);
+};
+
+export const recordReview = async (item: ReviewItem, correct: boolean): Promise<ReviewItem> => {
+  const next = scheduleNext(item, correct);
+  await dbPut(STORES.reviews, next);
+  return next;
+};
+
+export interface RetentionStats {
+  totalWords: number;
+  masteredWords: number;
+  dueToday: number;
+  reviewsLast30Days: number;
+  // Share of correct answers in the last 30 days (0..1), null if no reviews
+  accuracyLast30Days: number | null;
+}
+
+export const getRetentionStats = async (profileId: string, now = Date.now()): Promise<RetentionStats> => {
+  const items = await listReviewItems(profileId);
+  const since = now - 30 * DAY_MS;
+  const recent = items.flatMap(item => item.history.filter(h => h.at >= since));
+  const correct = recent.filter(h => h.correct).length;
+
+  return {
+    totalWords: items.length,
+    masteredWords: items.filter(item => item.intervalDays >= MASTERED_INTERVAL_DAYS).length,
+    dueToday: items.filter(item => item.dueAt <= now).length,
+    reviewsLast30Days: recent.length,
+    accuracyLast30Days: recent.length ? correct / recent.length : null,
+  };
+};
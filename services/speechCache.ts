@@ -0,0 +1,81 @@
+import { LanguageCode, StoredAudio } from "../types";
+import { LANGUAGES } from "../languages";
+import { AiProvider } from "./aiProvider";
+import { STORES, dbClear, dbDelete, dbGet, dbGetAll, dbPut } from "./db";
+import { audioBufferToPcm, pcmToAudioBuffer } from "./audioUtils";
+
+// --- Speech Cache ---
+// TTS results are kept on the device as raw PCM, so replaying a word or a
+// story page is instant, costs no quota and works offline. Least recently
+// played entries are evicted once the cache outgrows its budget.
+
+const MAX_CACHE_BYTES = 40 * 1024 * 1024;
+
+interface CachedSpeech {
+  key: string;
+  audio: StoredAudio;
+}
+
+interface SpeechUsage {
+  key: string;
+  bytes: number;
+  lastUsedAt: number;
+}
+
+// Provider is part of the key so mock tones never stand in for real speech
+const cacheKey = (ai: AiProvider, text: string, language: LanguageCode) =>
+  `${ai.name}:${LANGUAGES[language].ttsVoice}:${language}:${text.trim()}`;
+
+const touch = (key: string, bytes: number) =>
+  dbPut<SpeechUsage>(STORES.speechUsage, { key, bytes, lastUsedAt: Date.now() });
+
+const evict = async () => {
+  const usage = await dbGetAll<SpeechUsage>(STORES.speechUsage);
+  let total = usage.reduce((sum, entry) => sum + entry.bytes, 0);
+  const oldestFirst = usage.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  for (const entry of oldestFirst) {
+    if (total <= MAX_CACHE_BYTES) break;
+    await Promise.all([dbDelete(STORES.speech, entry.key), dbDelete(STORES.speechUsage, entry.key)]);
+    total -= entry.bytes;
+  }
+};
+
+// Drop-in for ai.generateSpeech. Cache failures never block playback.
+export const getSpeech = async (ai: AiProvider, text: string, language: LanguageCode): Promise<AudioBuffer | null> => {
+  const key = cacheKey(ai, text, language);
+
+  const cached = await dbGet<CachedSpeech>(STORES.speech, key).catch(err => {
+    console.error("Speech cache read failed", err);
+    return undefined;
+  });
+  if (cached) {
+    touch(key, cached.audio.samples.byteLength).catch(err => console.error("Speech cache update failed", err));
+    return pcmToAudioBuffer(cached.audio);
+  }
+
+  const buffer = await ai.generateSpeech(text, language);
+  if (buffer) {
+    const audio = audioBufferToPcm(buffer);
+    dbPut<CachedSpeech>(STORES.speech, { key, audio })
+      .then(() => touch(key, audio.samples.byteLength))
+      .then(evict)
+      .catch(err => console.error("Speech cache write failed", err));
+  }
+  return buffer;
+};
+
+// Empties the cache. Entries aren't tied to a child, yet their keys hold
+// the spoken text, story and flashcard sentences included.
+export const clearSpeechCache = async (): Promise<void> => {
+  await Promise.all([dbClear(STORES.speech), dbClear(STORES.speechUsage)]);
+};
+
+// Fetches phrases we know will be needed soon, one at a time so it doesn't
+// compete with anything the child is waiting for
+export const prewarmSpeech = async (ai: AiProvider, texts: string[], language: LanguageCode): Promise<void> => {
+  for (const text of texts) {
+    const key = cacheKey(ai, text, language);
+    const cached = await dbGet<SpeechUsage>(STORES.speechUsage, key).catch(() => undefined);
+    if (!cached) await getSpeech(ai, text, language);
+  }
+};
@@ -0,0 +1,20 @@
+import { StoryBook } from "../types";
+import { STORES, dbDelete, dbGetAllByIndex, dbPut } from "./db";
+
+// --- Story Books ---
+// A book session collects photographed pages with their narration and
+// audio, so a finished book can be re-read without calling the model again.
+
+export const saveBook = async (book: StoryBook): Promise<StoryBook> => {
+  const saved = { ...book, updatedAt: Date.now() };
+  await dbPut(STORES.books, saved);
+  return saved;
+};
+
+// Most recently read first
+export const listBooks = async (profileId: string): Promise<StoryBook[]> => {
+  const books = await dbGetAllByIndex<StoryBook>(STORES.books, 'profileId', profileId);
+  return books.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteBook = (id: string) => dbDelete(STORES.books, id);
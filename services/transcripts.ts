@@ -0,0 +1,105 @@
+import { AppTab, LanguageCode, TranscriptSession, TranscriptTurn, TranscriptSpeaker } from "../types";
+import { STORES, dbDelete, dbGetAllByIndex, dbPut } from "./db";
+import { downloadBlob, fileDate } from "./download";
+import { logSafetyEvent, screenText } from "./safety";
+import { getPrivacySettings } from "./privacy";
+
+// --- Voice Transcripts ---
+// Everything said in companion and magic-canvas sessions, kept so parents
+// can look back at what was practiced. A session is saved again after
+// every turn, with anything the safety word list catches masked, unless
+// parents have turned transcripts off in the privacy settings.
+
+export const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  family: '家长/宝贝',
+  gemi: 'Gemi',
+};
+
+export const TAB_LABELS: Partial<Record<AppTab, string>> = {
+  [AppTab.CHAT]: '伴读',
+  [AppTab.DRAW]: '魔法画板',
+};
+
+export const saveSession = async (session: TranscriptSession): Promise<TranscriptSession> => {
+  const saved = { ...session, updatedAt: Date.now() };
+  await dbPut(STORES.sessions, saved);
+  return saved;
+};
+
+// Most recent first
+export const listSessions = async (profileId: string): Promise<TranscriptSession[]> => {
+  const sessions = await dbGetAllByIndex<TranscriptSession>(STORES.sessions, 'profileId', profileId);
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const deleteSession = (id: string) => dbDelete(STORES.sessions, id);
+
+// Sessions with at least one line containing `query`, narrowed to those lines
+export const searchSessions = (sessions: TranscriptSession[], query: string): TranscriptSession[] => {
+  const wanted = query.trim().toLowerCase();
+  if (!wanted) return sessions;
+  return sessions
+    .map(session => ({ ...session, turns: session.turns.filter(turn => turn.text.toLowerCase().includes(wanted)) }))
+    .filter(session => session.turns.length > 0);
+};
+
+export const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const sessionToText = (session: TranscriptSession) => [
+  `=== ${new Date(session.startedAt).toLocaleString()} ${TAB_LABELS[session.tab] ?? ''} ===`,
+  ...session.turns.map(turn => `[${formatTime(turn.at)}] ${SPEAKER_LABELS[turn.speaker]}: ${turn.text}`),
+].join('\n');
+
+export const exportSessions = (sessions: TranscriptSession[], format: 'text' | 'json') => {
+  const name = `voice-log-${fileDate(Date.now())}`;
+  if (format === 'json') {
+    downloadBlob(new Blob([JSON.stringify(sessions, null, 2)], { type: 'application/json' }), `${name}.json`);
+  } else {
+    downloadBlob(new Blob([sessions.map(sessionToText).join('\n\n')], { type: 'text/plain;charset=utf-8' }), `${name}.txt`);
+  }
+};
+
+// Collects a live session's transcription into turns and saves them.
+// Hand `handleTranscription` to createLiveSession.
+export class TranscriptRecorder {
+    session: TranscriptSession;
+    // When the turn in progress was first heard
+    private turnStartedAt: number | null = null;
+
+    constructor(
+        profileId: string,
+        tab: AppTab,
+        targetLanguage: LanguageCode,
+        private onChange?: (session: TranscriptSession) => void
+    ) {
+        const now = Date.now();
+        this.session = { id: now.toString(), profileId, tab, targetLanguage, startedAt: now, updatedAt: now, turns: [] };
+    }
+
+    handleTranscription = (userText: string, aiText: string, isFinal: boolean) => {
+        if (this.turnStartedAt === null) this.turnStartedAt = Date.now();
+        if (!isFinal) return;
+        const heard = screenText(userText.trim());
+        const said = screenText(aiText.trim());
+        const turns: TranscriptTurn[] = [];
+        if (heard.text) turns.push({ speaker: 'family', text: heard.text, at: this.turnStartedAt });
+        if (said.text) turns.push({ speaker: 'gemi', text: said.text, at: Date.now() });
+        this.turnStartedAt = null;
+        if (!turns.length) return;
+
+        const keep = getPrivacySettings().keepTranscripts;
+        const terms = [...heard.terms, ...said.terms];
+        if (terms.length) {
+            const { profileId, tab } = this.session;
+            // Without transcripts the log gets the caught words but not what was said
+            const excerpt = keep ? turns.map(turn => turn.text).join(' / ') : '';
+            logSafetyEvent(profileId, tab, 'filtered', terms, excerpt)
+                .catch(err => console.error("Logging safety event failed", err));
+        }
+
+        this.session = { ...this.session, turns: [...this.session.turns, ...turns] };
+        this.onChange?.(this.session);
+        if (!keep) return;
+        saveSession(this.session).catch(err => console.error("Saving transcript failed", err));
+    };
+}
@@ -0,0 +1,57 @@
+import { AppTab, TabUsage } from "../types";
+import { STORES, dbGet, dbGetAllByIndex, dbPut } from "./db";
+
+// --- Screen Time ---
+// How long the child spends in each tab, per day. Only time with the app
+// on screen counts, and it's written every little while so closing the
+// page loses at most a few seconds.
+
+const FLUSH_INTERVAL_MS = 15_000;
+
+// Local calendar day, YYYY-MM-DD
+export const dayKey = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Writes one at a time; each is a read-modify-write of the day's record
+let writes: Promise<void> = Promise.resolve();
+
+const addUsage = (profileId: string, tab: AppTab, ms: number, at: number) => {
+  writes = writes.then(async () => {
+    const day = dayKey(at);
+    const key = `${profileId}:${day}:${tab}`;
+    const existing = await dbGet<TabUsage>(STORES.usage, key);
+    await dbPut<TabUsage>(STORES.usage, { key, profileId, day, tab, ms: (existing?.ms ?? 0) + ms });
+  }).catch(err => console.error("Saving screen time failed", err));
+};
+
+// Starts counting time in `tab`; the returned function stops it
+export const trackTabTime = (profileId: string, tab: AppTab): (() => void) => {
+  let since: number | null = document.hidden ? null : Date.now();
+
+  const flush = () => {
+    if (since === null) return;
+    const now = Date.now();
+    addUsage(profileId, tab, now - since, now);
+    since = now;
+  };
+  const handleVisibilityChange = () => {
+    if (document.hidden) {
+      flush();
+      since = null;
+    } else {
+      since = Date.now();
+    }
+  };
+
+  const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  return () => {
+    flush();
+    clearInterval(timer);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+};
+
+export const listUsage = (profileId: string) => dbGetAllByIndex<TabUsage>(STORES.usage, 'profileId', profileId);
@@ -0,0 +1,101 @@
+// --- Voice Activity Detection ---
+// Decides, chunk by chunk, whether someone is talking into the mic. It keeps
+// an adaptive noise floor so a humming fridge or a TV in the background
+// doesn't count as speech, while still picking up small, quiet voices.
+
+export interface VadOptions {
+    // 0 (only loud speech) .. 1 (very quiet voices). Defaults to 0.6, tuned
+    // for 3-4 year olds who often talk softly and far from the tablet.
+    sensitivity?: number;
+    // How long speech must last before it counts (filters clicks and bumps)
+    minSpeechMs?: number;
+    // How long silence must last before speech is considered over
+    hangoverMs?: number;
+}
+
+export type VadEvent = 'speechStart' | 'speechEnd' | null;
+
+const DEFAULT_SENSITIVITY = 0.6;
+const DEFAULT_MIN_SPEECH_MS = 120;
+const DEFAULT_HANGOVER_MS = 700;
+// Adapts the noise floor slowly so speech doesn't raise it
+const NOISE_FLOOR_ADAPT_RATE = 0.05;
+const INITIAL_NOISE_FLOOR = 0.01;
+
+// Younger children talk more softly, so the mic listens harder for them
+export const sensitivityForAge = (age: number) => {
+    if (age <= 3) return 0.75;
+    if (age <= 5) return DEFAULT_SENSITIVITY;
+    return 0.45;
+};
+
+// Computes the RMS level of a chunk of float samples
+export const rmsLevel = (samples: Float32Array) => {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+    }
+    return samples.length ? Math.sqrt(sum / samples.length) : 0;
+};
+
+export class VoiceActivityDetector {
+    private sensitivity: number;
+    private minSpeechMs: number;
+    private hangoverMs: number;
+    private noiseFloor = INITIAL_NOISE_FLOOR;
+    private speaking = false;
+    private aboveMs = 0;
+    private belowMs = 0;
+
+    constructor(options: VadOptions = {}) {
+        this.sensitivity = this.clamp(options.sensitivity ?? DEFAULT_SENSITIVITY);
+        this.minSpeechMs = options.minSpeechMs ?? DEFAULT_MIN_SPEECH_MS;
+        this.hangoverMs = options.hangoverMs ?? DEFAULT_HANGOVER_MS;
+    }
+
+    get isSpeaking() {
+        return this.speaking;
+    }
+
+    // Feeds one chunk's level. `strictness` > 1 raises the bar, used while
+    // Gemi is talking so its own voice leaking into the mic isn't mistaken
+    // for the child barging in.
+    process(level: number, durationMs: number, strictness = 1): VadEvent {
+        // Higher sensitivity -> smaller margin over the noise floor
+        const ratio = (1.5 + (1 - this.sensitivity) * 3) * strictness;
+        const minimum = (0.002 + (1 - this.sensitivity) * 0.02) * strictness;
+        const threshold = Math.max(this.noiseFloor * ratio, minimum);
+        const isLoud = level > threshold;
+
+        if (!this.speaking) {
+            this.noiseFloor += (level - this.noiseFloor) * NOISE_FLOOR_ADAPT_RATE;
+        }
+
+        if (isLoud) {
+            this.aboveMs += durationMs;
+            this.belowMs = 0;
+            if (!this.speaking && this.aboveMs >= this.minSpeechMs) {
+                this.speaking = true;
+                return 'speechStart';
+            }
+        } else {
+            this.belowMs += durationMs;
+            this.aboveMs = 0;
+            if (this.speaking && this.belowMs >= this.hangoverMs) {
+                this.speaking = false;
+                return 'speechEnd';
+            }
+        }
+        return null;
+    }
+
+    reset() {
+        this.speaking = false;
+        this.aboveMs = 0;
+        this.belowMs = 0;
+    }
+
+    private clamp(value: number) {
+        return Math.min(1, Math.max(0, value));
+    }
+}
@@ -0,0 +1,29 @@
+import { FlashCardData, SavedWord } from "../types";
+import { STORES, dbDelete, dbGetAllByIndex, dbPut } from "./db";
+
+// --- Word Collection ---
+// Every flashcard a child gets from a photo is kept here, one entry per
+// word; photographing the same thing again refreshes its card and photo.
+
+export const wordId = (profileId: string, card: FlashCardData) =>
+  `${profileId}:${card.targetLanguage}:${card.targetWord.trim().toLowerCase()}`;
+
+export const saveWord = async (profileId: string, card: FlashCardData, thumbnail?: string): Promise<SavedWord> => {
+  const word: SavedWord = {
+    id: wordId(profileId, card),
+    profileId,
+    card,
+    thumbnail,
+    createdAt: Date.now(),
+  };
+  await dbPut(STORES.words, word);
+  return word;
+};
+
+// Newest first
+export const listWords = async (profileId: string): Promise<SavedWord[]> => {
+  const words = await dbGetAllByIndex<SavedWord>(STORES.words, 'profileId', profileId);
+  return words.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteWord = (id: string) => dbDelete(STORES.words, id);
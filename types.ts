@@ -1,11 +1,29 @@
 
 export enum AppTab {
+  PHOTO = 'photo',
   DRAW = 'draw',
   CHAT = 'chat',
   STORY = 'story'
 }
 
+export type LanguageCode = 'zh' | 'en' | 'ja' | 'es' | 'fr';
+
+// The parent's language and the language the child is learning
+export interface LanguagePair {
+  native: LanguageCode;
+  target: LanguageCode;
+}
+
+export interface ChildProfile {
+  id: string;
+  name: string;
+  avatar: string;
+  age: number;
+  targetLanguage: LanguageCode;
+}
+
 export interface FlashCardData {
+  targetLanguage: LanguageCode;
   targetWord: string;
   nativeWord: string;
   pronunciation: string;
@@ -13,6 +31,159 @@ export interface FlashCardData {
   emoji: string;
 }
 
+// A word met outside the photo flashcards (stories, the magic canvas)
+export interface VocabularyWord {
+  targetWord: string;
+  nativeWord: string;
+  pronunciation: string;
+  emoji: string;
+}
+
+export interface StorySentence {
+  // In the language being learned
+  text: string;
+  // The same sentence in the parent's language
+  translation: string;
+  // Words from this sentence worth practicing (often none)
+  vocabulary: VocabularyWord[];
+}
+
+export interface StoryResult {
+  sentences: StorySentence[];
+}
+
+export type WordSource = 'photo' | 'draw' | 'story';
+
+// Mono 16-bit PCM, as produced by TTS, kept for offline replay
+export interface StoredAudio {
+  sampleRate: number;
+  samples: Int16Array;
+}
+
+export interface NarratedSentence {
+  text: string;
+  audio?: StoredAudio;
+  translation: string;
+  translationAudio?: StoredAudio;
+  vocabulary?: VocabularyWord[];
+}
+
+export interface BookPage {
+  // JPEG data URL of the photographed page; not kept in saved books when
+  // the privacy settings say no photos
+  image?: string;
+  text: string;
+  keyWords: VocabularyWord[];
+  // The same text split into sentences, each narrated on its own
+  sentences: NarratedSentence[];
+}
+
+// A picture book read page by page and saved for re-reading
+export interface StoryBook {
+  id: string;
+  profileId: string;
+  title: string;
+  targetLanguage: LanguageCode;
+  pages: BookPage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// How generateKidImage draws: a full-color illustration, or black line
+// art for coloring in
+export type ImageStyle = 'illustration' | 'coloringPage';
+
+// A magic-canvas picture kept for the gallery
+export interface Artwork {
+  id: string;
+  profileId: string;
+  // Data URL of the picture
+  image: string;
+  // English prompt the picture was drawn from
+  prompt: string;
+  // Words the child learned while drawing it
+  words: VocabularyWord[];
+  targetLanguage: LanguageCode;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Who said a line in a voice session. Parent and child share one
+// microphone, so everything heard from the room is 'family'.
+export type TranscriptSpeaker = 'family' | 'gemi';
+
+export interface TranscriptTurn {
+  speaker: TranscriptSpeaker;
+  text: string;
+  at: number;
+}
+
+// One live voice session (companion or magic canvas) with everything said in it
+export interface TranscriptSession {
+  id: string;
+  profileId: string;
+  tab: AppTab;
+  targetLanguage: LanguageCode;
+  startedAt: number;
+  updatedAt: number;
+  turns: TranscriptTurn[];
+}
+
+// Time spent in one tab on one (local) day
+export interface TabUsage {
+  // `${profileId}:${day}:${tab}`
+  key: string;
+  profileId: string;
+  // YYYY-MM-DD
+  day: string;
+  tab: AppTab;
+  ms: number;
+}
+
+// Spaced-repetition state for one word (SM-2)
+export interface ReviewItem {
+  id: string;
+  profileId: string;
+  card: FlashCardData;
+  source: WordSource;
+  thumbnail?: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: number;
+  history: { at: number; correct: boolean }[];
+  // When the word was first met
+  addedAt: number;
+}
+
+// One "say it back" try, scored against the word's spelling
+export interface PronunciationAttempt {
+  id: string;
+  profileId: string;
+  // Same id as the word's ReviewItem / SavedWord
+  wordId: string;
+  targetLanguage: LanguageCode;
+  targetWord: string;
+  // What the live transcription heard; empty when transcripts aren't kept
+  transcript: string;
+  // 0..1 closeness of the transcript to the word
+  similarity: number;
+  stars: number;
+  source: WordSource;
+  at: number;
+}
+
+// A flashcard kept in a child's word collection
+export interface SavedWord {
+  id: string;
+  profileId: string;
+  card: FlashCardData;
+  // Small JPEG data URL of the photo the word came from, unless the
+  // privacy settings say no photos
+  thumbnail?: string;
+  createdAt: number;
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
@@ -22,4 +193,61 @@ export interface ChatMessage {
 export interface GeneratedImage {
   url: string;
   prompt: string;
-}
\ No newline at end of file
+}
+
+// --- Live voice relay protocol (browser <-> proxy server) ---
+
+export interface LiveRelaySetup {
+  systemInstruction: string;
+  tools?: any[];
+}
+
+export type LiveRelayClientMessage =
+  | { type: 'setup'; setup: LiveRelaySetup }
+  | { type: 'realtimeInput'; media?: { mimeType: string; data: string }; audioStreamEnd?: boolean }
+  | { type: 'clientContent'; turns: any[]; turnComplete: boolean }
+  | { type: 'toolResponse'; functionResponses: any };
+
+export type LiveRelayServerMessage =
+  | { type: 'open' }
+  | { type: 'message'; message: any }
+  | { type: 'error'; message: string }
+  | { type: 'close'; reason?: string };
+
+// "HH:MM" in local time; the span may cross midnight
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+// A parent's limits for one child; null means no limit
+export interface ScreenTimeRules {
+  dailyMinutes: number | null;
+  quietHours: QuietHours | null;
+}
+
+// Something kept away from the child, for the parent to review:
+// 'blocked' when the model refused, 'filtered' when the local word list
+// caught it
+export interface SafetyEvent {
+  id: string;
+  profileId: string;
+  at: number;
+  tab: AppTab;
+  kind: 'blocked' | 'filtered';
+  // Words the list caught; empty when the model refused
+  terms: string[];
+  // What was being asked for or said, with caught words masked
+  excerpt: string;
+}
+
+// Device-wide privacy choices, set by a parent
+export interface PrivacySettings {
+  // Pixelate faces on the device before a photo goes to the model
+  blurFaces: boolean;
+  keepTranscripts: boolean;
+  // Photos in the word collection and saved picture books
+  keepPhotos: boolean;
+  // Voice chat in the magic canvas and the companion; off until a parent allows it
+  allowMic: boolean;
+}
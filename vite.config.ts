@@ -4,15 +4,23 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const proxyTarget = `http://localhost:${env.PROXY_PORT || 8787}`;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The Gemini key stays in the API proxy (npm run server); the browser
+        // only ever talks to /api.
+        proxy: {
+          '/api': {
+            target: proxyTarget,
+            ws: true,
+          },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
       },
       resolve: {
         alias: {